@@ -0,0 +1,161 @@
+// Serves GTFS-Realtime TripUpdates, VehiclePositions and ServiceAlerts as JSON, generated from
+// the bundled static feed so the app's realtime layer can be exercised without a live source.
+//
+//   npm run mock:realtime
+//   VITE_GTFS_RT_TRIP_UPDATES_URL=http://localhost:8787/trip-updates.json
+//   VITE_GTFS_RT_VEHICLE_POSITIONS_URL=http://localhost:8787/vehicle-positions.json
+//
+// Set MOCK_TIME=08:30 to simulate buses at that local time regardless of the clock.
+import { readdirSync, readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { runnerImport } from 'vite'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const gtfsDir = join(root, 'MJ_transit_GTFS')
+const alertsFixture = join(root, 'public', 'fixtures', 'service-alerts.json')
+const port = Number(process.env.PORT ?? 8787)
+const timeZone = 'America/Regina'
+const mockTime = process.env.MOCK_TIME
+
+const { module: core } = await runnerImport(join(root, 'src/core/index.ts'), {
+  configFile: false,
+  logLevel: 'error',
+})
+const { getActiveServiceIds, getServiceDate, parseGtfsFeed, timeToMinutes: toMinutes } = core
+
+const feed = parseGtfsFeed(
+  Object.fromEntries(
+    readdirSync(gtfsDir)
+      .filter((name) => name.endsWith('.txt'))
+      .map((name) => [name, readFileSync(join(gtfsDir, name), 'utf8')])
+  )
+)
+const stops = new Map(feed.stops.map((stop) => [stop.stop_id, stop]))
+
+const localNow = () => {
+  const now = new Date()
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      hourCycle: 'h23',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value])
+  )
+  return {
+    serviceDate: getServiceDate(now, timeZone),
+    minutes: mockTime
+      ? toMinutes(mockTime)
+      : Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60,
+  }
+}
+
+// A stable pseudo-random number per trip so each trip keeps the same delay between polls.
+const tripHash = (tripId) =>
+  [...tripId].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7)
+
+const buildFeeds = () => {
+  const { serviceDate, minutes } = localNow()
+  const services = getActiveServiceIds(feed.calendars, feed.calendarExceptions, serviceDate)
+  const timestamp = Math.floor(Date.now() / 1000)
+  const tripUpdates = []
+  const vehicles = []
+
+  feed.trips
+    .filter((trip) => services.has(trip.service_id))
+    .forEach((trip) => {
+      const stopTimes = feed.stopTimesByTrip.get(trip.trip_id)
+      if (!stopTimes?.length) return
+      const hash = tripHash(trip.trip_id)
+      const delaySeconds = ((hash % 7) - 1) * 60
+      const effectiveMinutes = minutes - delaySeconds / 60
+      const first = toMinutes(stopTimes[0].departure_time)
+      const last = toMinutes(stopTimes[stopTimes.length - 1].arrival_time)
+      if (effectiveMinutes < first - 10 || effectiveMinutes > last) return
+      const descriptor = { trip_id: trip.trip_id, route_id: trip.route_id, start_date: serviceDate }
+
+      if (hash % 17 === 0) {
+        tripUpdates.push({
+          id: `tu-${trip.trip_id}`,
+          trip_update: { trip: { ...descriptor, schedule_relationship: 'CANCELED' }, timestamp },
+        })
+        return
+      }
+
+      const nextIndex = stopTimes.findIndex(
+        (stopTime) => toMinutes(stopTime.departure_time) >= effectiveMinutes
+      )
+      const next = stopTimes[Math.max(nextIndex, 0)]
+      tripUpdates.push({
+        id: `tu-${trip.trip_id}`,
+        trip_update: {
+          trip: descriptor,
+          vehicle: { id: `bus-${hash % 100}`, label: `${hash % 100}` },
+          stop_time_update: [
+            {
+              stop_sequence: next.stop_sequence,
+              stop_id: next.stop_id,
+              arrival: { delay: delaySeconds },
+              departure: { delay: delaySeconds },
+            },
+          ],
+          timestamp,
+        },
+      })
+
+      if (effectiveMinutes < first) return
+      const segment = stopTimes.findIndex(
+        (stopTime, index) =>
+          index < stopTimes.length - 1 &&
+          toMinutes(stopTimes[index + 1].arrival_time) >= effectiveMinutes
+      )
+      const from = stops.get(stopTimes[segment].stop_id)
+      const to = stops.get(stopTimes[segment + 1].stop_id)
+      if (!from || !to) return
+      const start = toMinutes(stopTimes[segment].departure_time)
+      const end = toMinutes(stopTimes[segment + 1].arrival_time)
+      const ratio = end > start ? Math.min(Math.max((effectiveMinutes - start) / (end - start), 0), 1) : 0
+      vehicles.push({
+        id: `vp-${trip.trip_id}`,
+        vehicle: {
+          trip: descriptor,
+          vehicle: { id: `bus-${hash % 100}`, label: `${hash % 100}` },
+          position: {
+            latitude: from.stop_lat + (to.stop_lat - from.stop_lat) * ratio,
+            longitude: from.stop_lon + (to.stop_lon - from.stop_lon) * ratio,
+          },
+          current_stop_sequence: stopTimes[segment + 1].stop_sequence,
+          stop_id: stopTimes[segment + 1].stop_id,
+          timestamp,
+        },
+      })
+    })
+
+  const header = { gtfs_realtime_version: '2.0', timestamp }
+  return {
+    '/trip-updates.json': { header, entity: tripUpdates },
+    '/vehicle-positions.json': { header, entity: vehicles },
+  }
+}
+
+createServer((request, response) => {
+  const path = new URL(request.url ?? '/', `http://localhost:${port}`).pathname
+  response.setHeader('Access-Control-Allow-Origin', '*')
+  response.setHeader('Cache-Control', 'no-store')
+  const body =
+    path === '/alerts.json' ? JSON.parse(readFileSync(alertsFixture, 'utf8')) : buildFeeds()[path]
+  if (!body) {
+    response.writeHead(404, { 'Content-Type': 'text/plain' })
+    response.end('Try /trip-updates.json, /vehicle-positions.json or /alerts.json\n')
+    return
+  }
+  response.writeHead(200, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}).listen(port, () => {
+  console.log(`Mock GTFS-Realtime feeds on http://localhost:${port}`)
+})
@@ -0,0 +1,40 @@
+// Checks a GTFS folder and writes feed-report.json and feed-report.md. Exits with 1 when the
+// feed has errors; warnings alone do not fail the run.
+//
+//   npm run validate-feed
+//   npm run validate-feed -- path/to/gtfs path/to/report-dir
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, join, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { runnerImport } from 'vite'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const gtfsDir = resolve(process.argv[2] ?? join(root, 'MJ_transit_GTFS'))
+const reportDir = resolve(process.argv[3] ?? join(root, 'feed-report'))
+
+const files = Object.fromEntries(
+  readdirSync(gtfsDir)
+    .filter((name) => name.endsWith('.txt'))
+    .map((name) => [name, readFileSync(join(gtfsDir, name), 'utf8')])
+)
+
+const { module } = await runnerImport(join(root, 'src/core/feedValidation.ts'), {
+  configFile: false,
+  logLevel: 'error',
+})
+const report = module.validateFeed(files, new Date().toISOString())
+
+mkdirSync(reportDir, { recursive: true })
+writeFileSync(join(reportDir, 'feed-report.json'), `${JSON.stringify(report, null, 2)}\n`)
+writeFileSync(join(reportDir, 'feed-report.md'), module.formatFeedReportMarkdown(report))
+
+const location = (issue) => `${issue.file}${issue.line ? `:${issue.line}` : ''}`
+report.issues
+  .filter((issue) => issue.severity === 'error')
+  .slice(0, 20)
+  .forEach((issue) => console.error(`error   ${location(issue)}  ${issue.message}`))
+console.log(
+  `${gtfsDir}: ${report.counts.errors} error(s), ${report.counts.warnings} warning(s). ` +
+    `Report written to ${join(reportDir, 'feed-report.md')}`
+)
+process.exitCode = report.counts.errors > 0 ? 1 : 0
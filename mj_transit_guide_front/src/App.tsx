@@ -1,7 +1,8 @@
 ﻿import './App.css'
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState, type HTMLAttributes } from 'react'
 import {
   AppBar,
+  Badge,
   Box,
   Button,
   Card,
@@ -25,271 +26,307 @@ import {
   TextField,
   Alert,
   CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Tooltip,
 } from '@mui/material'
 import {
   AccessTime,
+  Accessible,
   ArrowForward,
+  CloudOff,
+  ContentCopy,
+  DirectionsBike,
   DirectionsWalk,
   DirectionsBus,
   MyLocation,
+  NotAccessible,
   Place,
+  Share,
+  Star,
+  StarBorder,
   SwapHoriz,
+  WarningAmber,
 } from '@mui/icons-material'
-import stopsRaw from '../MJ_transit_GTFS/stops.txt?raw'
-import stopTimesRaw from '../MJ_transit_GTFS/stop_times.txt?raw'
-import routesRaw from '../MJ_transit_GTFS/routes.txt?raw'
-import tripsRaw from '../MJ_transit_GTFS/trips.txt?raw'
-
-type Stop = {
-  stop_id: string
-  stop_code: string
-  stop_name: string
-  stop_lat: number
-  stop_lon: number
-}
-
-type StopTime = {
-  trip_id: string
-  arrival_time: string
-  departure_time: string
-  stop_id: string
-  stop_sequence: number
-}
-
-type Trip = {
-  trip_id: string
-  route_id: string
-  trip_headsign: string
-  trip_short_name: string
-}
-
-type Route = {
-  route_id: string
-  route_short_name: string
-  route_long_name: string
-}
-
-type CandidateTrip = {
-  trip: Trip
-  route: Route | undefined
-  boardStop: Stop
-  alightStop: Stop
-  boardTime: string
-  alightTime: string
-  boardSequence: number
-  alightSequence: number
-  walkDistanceKm: number | null
-  exactDestination: boolean
-}
-
-type TransferPlan = {
-  firstLeg: CandidateTrip
-  secondLeg: CandidateTrip
-  transferStop: Stop
-  layoverMinutes: number
-  totalMinutes: number
-}
-
-type AddressSuggestion = {
-  description: string
-  place_id: string
-  source: 'google'
-}
+import {
+  addServiceDays,
+  applyRealtimeToItinerary,
+  computeStopBounds,
+  createNetworkForDay,
+  defaultPlannerOptions,
+  describeHeadway,
+  describeTripDirection,
+  emptyGtfsFeed,
+  findAccessPoints,
+  findAlertsFor,
+  findNearestStop,
+  formatServiceDate,
+  formatServiceInstant,
+  formatTime,
+  getFreshVehicles,
+  getServiceDate,
+  getServiceDay,
+  getServiceMinutes,
+  getTripDirection,
+  haversineDistanceKm,
+  isAlertActive,
+  isAlertUpcoming,
+  isHeadwayTrip,
+  isoDateToServiceDate,
+  isSamePlanLinkPlace,
+  isSnapshotFresh,
+  isWithinBounds,
+  itineraryKey,
+  minutesToClockTime,
+  planTrip,
+  readPlanLink,
+  searchItineraries,
+  serviceDateToIsoDate,
+  serviceTimeToEpochSeconds,
+  timeToMinutes,
+  writePlanLink,
+  type AccessPoint,
+  type Bounds,
+  type CandidateTrip,
+  type GtfsFeed,
+  type Itinerary,
+  type PlanLink,
+  type PlanLinkPlace,
+  type PlannedItinerary,
+  type PlannerOptions,
+  type RealtimeContext,
+  type RealtimeSnapshot,
+  type ServiceAlert,
+  type Stop,
+  type TripTimeMode,
+} from './core'
+import DepartureBoard from './components/DepartureBoard'
+import FavouriteTrips from './components/FavouriteTrips'
+import LegStopList from './components/LegStopList'
+import SavedPlaceChips from './components/SavedPlaceChips'
+import RouteTimetable from './components/RouteTimetable'
+import RouteMap from './components/RouteMap'
+import ServiceAlertsDrawer from './components/ServiceAlertsDrawer'
+import { buildItineraryScene } from './map/itineraryScene'
+import type { MapRendererFactory, MapScene } from './map/mapLayer'
+import { createGoogleMapRendererFactory } from './map/googleMapRenderer'
+import { createSvgMapRenderer } from './map/svgMapRenderer'
+import { loadGoogleMaps } from './googleMapsLoader'
+import { loadGtfsFeed, resolveGtfsSource, type GtfsFeedOrigin } from './gtfs/loadGtfsFeed'
+import { fetchRealtimeSnapshot } from './realtime/realtimeFeed'
+import { fetchServiceAlerts } from './realtime/serviceAlerts'
+import {
+  createMergedGeocodingProvider,
+  type AddressSuggestion,
+  type GeocodingProvider,
+} from './geocoding/provider'
+import {
+  loadSavedPlaces,
+  saveFavouriteTrip,
+  savePlace,
+  storeSavedPlaces,
+  type FavouriteTrip,
+  type SavedPlaces,
+} from './places/savedPlaces'
+import { createGoogleGeocodingProvider } from './geocoding/googleProvider'
+import { createLocalGeocodingProvider } from './geocoding/localProvider'
 
 type AddressResult = {
   address: string
   location: { lat: number; lng: number }
 }
 
-type Bounds = {
-  minLat: number
-  maxLat: number
-  minLon: number
-  maxLon: number
-}
-
-type GoogleGeocoderResult = {
-  formatted_address?: string
-  place_id?: string
-  address_components?: Array<{ long_name: string; short_name: string; types: string[] }>
-  geometry?: { location?: { lat: () => number; lng: () => number } }
-}
-
-const googleMapsScriptId = 'google-maps-js'
-const googleMapsLibraries = 'places'
-const googleMapsVersion = 'weekly'
-const mooseJawName = 'moose jaw'
-const mooseJawProvince = 'saskatchewan'
-const mooseJawProvinceAbbr = 'sk'
 const serviceAreaPadding = 0.05
+const gtfsSource = resolveGtfsSource(import.meta.env.VITE_GTFS_URL as string | undefined)
 const googleMapsApiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY as string | undefined
-
-const parseCsv = (raw: string) => {
-  const [headerLine, ...lines] = raw.trim().split(/\r?\n/)
-  const headers = headerLine.split(',')
-  return lines
-    .filter((line) => line.trim().length > 0)
-    .map((line) => {
-      const values = line.split(',')
-      return headers.reduce<Record<string, string>>((acc, header, index) => {
-        acc[header] = values[index] ?? ''
-        return acc
-      }, {})
-    })
-}
-
-const timeToMinutes = (value: string) => {
-  const [hours, minutes, seconds] = value.split(':').map((part) => Number(part) || 0)
-  return hours * 60 + minutes + seconds / 60
-}
+const serviceAlertsUrl = import.meta.env.VITE_SERVICE_ALERTS_URL as string | undefined
+const serviceAlertsRefreshMs = 5 * 60000
+const realtimeFeedUrls = [
+  import.meta.env.VITE_GTFS_RT_TRIP_UPDATES_URL as string | undefined,
+  import.meta.env.VITE_GTFS_RT_VEHICLE_POSITIONS_URL as string | undefined,
+].filter((url): url is string => Boolean(url))
+const realtimeRefreshMs = 30000
+const walkRadiusOptions = [200, 400, 500, 800, 1200]
+const walkingPaceOptions = [
+  { label: 'Slow (3.5 km/h)', value: 3.5 },
+  { label: 'Average (4.8 km/h)', value: 4.8 },
+  { label: 'Brisk (6 km/h)', value: 6 },
+]
 
 const gtfsTimeZone = 'America/Regina'
-
-const getNowMinutes = () => {
-  const now = new Date()
-  const formatter = new Intl.DateTimeFormat('en-CA', {
-    timeZone: gtfsTimeZone,
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-  })
-  const parts = formatter.formatToParts(now)
-  const hours = Number(parts.find((part) => part.type === 'hour')?.value ?? 0)
-  const minutes = Number(parts.find((part) => part.type === 'minute')?.value ?? 0)
-  return hours * 60 + minutes
-}
-
-const formatTime = (value: string) => {
-  const [rawHours, rawMinutes] = value.split(':')
-  const hoursTotal = Number(rawHours)
-  const minutes = Number(rawMinutes)
-  if (!Number.isFinite(hoursTotal) || !Number.isFinite(minutes)) {
-    return value
+const initialPlanLink = readPlanLink(window.location.search)
+const canSharePlan = typeof navigator !== 'undefined' && typeof navigator.share === 'function'
+
+const linkWalkMeters = (link: PlanLink) =>
+  link.walkMeters !== null && walkRadiusOptions.includes(link.walkMeters)
+    ? link.walkMeters
+    : defaultPlannerOptions.maxAccessWalkKm * 1000
+
+const linkWalkingSpeedKmh = (link: PlanLink) =>
+  walkingPaceOptions.find((option) => option.value === link.walkingSpeedKmh)?.value ??
+  defaultPlannerOptions.walkingSpeedKmh
+
+type ResolvedPlace = { selection: AddressSuggestion | null; result: AddressResult }
+
+// Linked and saved places resolve against the feed's stops only, never the geocoder.
+const resolvePlanLinkPlace = (
+  place: PlanLinkPlace | null,
+  stops: Stop[],
+  bounds: Bounds | null
+): ResolvedPlace | null => {
+  if (!place) return null
+  if (place.kind === 'stop') {
+    const stop = stops.find(
+      (item) => item.stop_id === place.stopId || item.stop_code === place.stopId
+    )
+    if (!stop) return null
+    const address = `${stop.stop_name} (Stop #${stop.stop_code})`
+    return {
+      selection: { description: address, place_id: `stop:${stop.stop_id}`, source: 'local' },
+      result: { address, location: { lat: stop.stop_lat, lng: stop.stop_lon } },
+    }
+  }
+  if (!isWithinBounds(place.lat, place.lng, bounds)) return null
+  return {
+    selection: null,
+    result: { address: place.label, location: { lat: place.lat, lng: place.lng } },
   }
-  const hours24 = ((hoursTotal % 24) + 24) % 24
-  const period = hours24 >= 12 ? 'PM' : 'AM'
-  const hours12 = hours24 % 12 || 12
-  return `${hours12}:${String(minutes).padStart(2, '0')} ${period}`
 }
-const minutesBetween = (start: string, end: string) => timeToMinutes(end) - timeToMinutes(start)
 
-const normalize = (value?: string) => value?.trim().toLowerCase() ?? ''
-
-const isMooseJawLocality = (value?: string) => normalize(value) === mooseJawName
-
-const isMooseJawProvince = (value?: string) => {
-  const normalized = normalize(value)
-  return normalized === mooseJawProvince || normalized === mooseJawProvinceAbbr
+const toPlanLinkPlace = (
+  selection: AddressSuggestion | null,
+  result: AddressResult | null
+): PlanLinkPlace | null => {
+  if (!result) return null
+  if (selection?.place_id.startsWith('stop:')) {
+    return { kind: 'stop', stopId: selection.place_id.slice('stop:'.length) }
+  }
+  return {
+    kind: 'location',
+    label: result.address,
+    lat: result.location.lat,
+    lng: result.location.lng,
+  }
 }
 
-const isWithinBounds = (lat: number, lon: number, bounds: Bounds | null) => {
-  if (!bounds) return true
-  return (
-    lat >= bounds.minLat &&
-    lat <= bounds.maxLat &&
-    lon >= bounds.minLon &&
-    lon <= bounds.maxLon
+const findLegAlerts = (alerts: ServiceAlert[], leg: CandidateTrip, serviceDate: string) => {
+  const boardEpochSeconds = serviceTimeToEpochSeconds(
+    serviceDate,
+    timeToMinutes(leg.boardTime),
+    gtfsTimeZone
+  )
+  return findAlertsFor(
+    alerts.filter((alert) => isAlertActive(alert, boardEpochSeconds)),
+    {
+      routeIds: [leg.trip.route_id],
+      tripIds: [leg.trip.trip_id],
+      stopIds: [leg.boardStop.stop_id, leg.alightStop.stop_id],
+    }
   )
 }
 
-const loadGoogleMaps = (apiKey: string) =>
-  new Promise<typeof window.google>((resolve, reject) => {
-    if (window.google?.maps?.places) {
-      resolve(window.google)
-      return
-    }
-    const existingScript = document.getElementById(googleMapsScriptId) as
-      | HTMLScriptElement
-      | null
-    if (existingScript) {
-      existingScript.addEventListener('load', () => resolve(window.google))
-      existingScript.addEventListener('error', () =>
-        reject(new Error('Failed to load Google Maps.'))
-      )
-      return
-    }
-    const script = document.createElement('script')
-    script.id = googleMapsScriptId
-    script.async = true
-    script.defer = true
-    const params = new URLSearchParams({
-      key: apiKey,
-      libraries: googleMapsLibraries,
-      v: googleMapsVersion,
-      region: 'CA',
-      language: 'en',
-    })
-    script.src = `https://maps.googleapis.com/maps/api/js?${params.toString()}`
-    script.onload = () => resolve(window.google)
-    script.onerror = () => reject(new Error('Failed to load Google Maps.'))
-    document.head.appendChild(script)
-  })
-
-const buildGoogleBounds = (bounds: Bounds | null) => {
-  if (!bounds || !window.google?.maps) return null
-  return new window.google.maps.LatLngBounds(
-    { lat: bounds.minLat, lng: bounds.minLon },
-    { lat: bounds.maxLat, lng: bounds.maxLon }
+const describeLegRealtime = (leg: CandidateTrip) => {
+  if (!leg.realtime || leg.realtime.status === 'scheduled') return 'Scheduled'
+  if (leg.realtime.status === 'canceled') return 'Canceled'
+  const delay = Math.round(
+    timeToMinutes(leg.boardTime) - timeToMinutes(leg.realtime.scheduledBoardTime)
   )
+  if (delay === 0) return 'Live - on time'
+  return delay > 0 ? `Live - ${delay} min late` : `Live - ${-delay} min early`
 }
 
-const getGoogleComponent = (
-  components: Array<{ long_name: string; short_name: string; types: string[] }>,
-  type: string
-) =>
-  components.find((component) => component.types.includes(type))
-
-const getGoogleLocality = (components: Array<{ long_name: string; short_name: string; types: string[] }>) => {
-  const locality = getGoogleComponent(components, 'locality')
-  if (locality) return locality.long_name
-  const postalTown = getGoogleComponent(components, 'postal_town')
-  return postalTown?.long_name
+type LegAccessStatus = {
+  color: 'success' | 'error' | 'disabled'
+  label: string
 }
 
-const isMooseJawGoogleResult = (result: GoogleGeocoderResult) => {
-  const components = result.address_components ?? []
-  const locality = getGoogleLocality(components)
-  if (isMooseJawLocality(locality)) return true
-  const admin = getGoogleComponent(components, 'administrative_area_level_1')
-  if (admin) {
-    if (!isMooseJawProvince(admin.long_name) && !isMooseJawProvince(admin.short_name)) {
-      return false
+const getLegWheelchairStatus = (leg: CandidateTrip): LegAccessStatus => {
+  if (leg.trip.wheelchair_accessible === 2) {
+    return { color: 'error', label: 'This bus is not wheelchair accessible' }
+  }
+  if (leg.boardStop.wheelchair_boarding === 2 || leg.alightStop.wheelchair_boarding === 2) {
+    return {
+      color: 'error',
+      label: 'The bus is accessible, but a stop on this leg has no level boarding',
     }
   }
-  const formatted = normalize(result.formatted_address)
-  return formatted.includes(mooseJawName)
-}
-
-const getGoogleLocation = (result: GoogleGeocoderResult) => {
-  const location = result.geometry?.location
-  if (!location) return null
-  return { lat: location.lat(), lng: location.lng() }
+  if (leg.trip.wheelchair_accessible === 1) {
+    return { color: 'success', label: 'Wheelchair accessible bus' }
+  }
+  return { color: 'disabled', label: 'No wheelchair information for this bus' }
 }
 
-const haversineDistanceKm = (a: Stop, lat: number, lon: number) => {
-  const toRad = (deg: number) => (deg * Math.PI) / 180
-  const earthRadiusKm = 6371
-  const dLat = toRad(lat - a.stop_lat)
-  const dLon = toRad(lon - a.stop_lon)
-  const originLat = toRad(a.stop_lat)
-  const destLat = toRad(lat)
-  const h =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(originLat) * Math.cos(destLat) * Math.sin(dLon / 2) ** 2
-  return 2 * earthRadiusKm * Math.asin(Math.sqrt(h))
+const getLegBikesStatus = (leg: CandidateTrip): LegAccessStatus =>
+  leg.trip.bikes_allowed === 1
+    ? { color: 'success', label: 'Bikes allowed on board' }
+    : leg.trip.bikes_allowed === 2
+      ? { color: 'error', label: 'No bikes on board' }
+      : { color: 'disabled', label: 'No bike information for this bus' }
+
+const getNowMinutes = () => getServiceMinutes(new Date(), gtfsTimeZone)
+
+const describeItinerary = (itinerary: PlannedItinerary, todayServiceDate: string) => {
+  const transfers = itinerary.transfers.length
+  const transferLabel =
+    transfers === 0 ? 'Direct' : `${transfers} transfer${transfers === 1 ? '' : 's'}`
+  const approximate =
+    itinerary.legs.some((leg) => isHeadwayTrip(leg.trip)) ||
+    itinerary.legs[itinerary.legs.length - 1]?.alightTimeEstimated
+  return `${transferLabel} - ${Math.round(itinerary.totalMinutes)} min on the way, arrive ${
+    approximate ? 'about ' : ''
+  }${formatServiceInstant(itinerary.serviceDate, itinerary.arrivalMinutes, todayServiceDate)}`
 }
 
-const findNearestStop = (stops: Stop[], lat: number, lon: number) => {
-  let nearest = stops[0]
-  let nearestDistance = haversineDistanceKm(nearest, lat, lon)
-  for (const stop of stops) {
-    const distance = haversineDistanceKm(stop, lat, lon)
-    if (distance < nearestDistance) {
-      nearest = stop
-      nearestDistance = distance
-    }
+const formatMeters = (distanceKm: number) => `${Math.round(distanceKm * 1000)} m`
+
+const getRideDistanceKm = (leg: CandidateTrip) =>
+  leg.boardShapeDistanceKm !== null && leg.alightShapeDistanceKm !== null
+    ? leg.alightShapeDistanceKm - leg.boardShapeDistanceKm
+    : null
+
+const renderAddressOption = (
+  { key, ...props }: HTMLAttributes<HTMLLIElement> & { key: string },
+  option: AddressSuggestion
+) => (
+  <Box component="li" key={key} {...props}>
+    <ListItemText primary={option.description} secondary={option.detail} />
+  </Box>
+)
+
+const explainStopChoice = (
+  role: 'board' | 'alight',
+  chosen: AccessPoint,
+  candidates: AccessPoint[],
+  itinerary: Itinerary,
+  baseline: Itinerary | undefined,
+  mode: TripTimeMode
+) => {
+  const action = role === 'board' ? 'Board at' : 'Get off at'
+  const chosenLabel = `${chosen.stop.stop_name} (${formatMeters(chosen.walkDistanceKm)} walk)`
+  const nearest = candidates[0]
+  if (!nearest || nearest.stop.stop_id === chosen.stop.stop_id) {
+    return `${action} ${chosenLabel}: the closest of ${candidates.length} stop${
+      candidates.length === 1 ? '' : 's'
+    } within walking distance.`
+  }
+  const nearestLabel = `${nearest.stop.stop_name} (${formatMeters(nearest.walkDistanceKm)})`
+  if (!baseline) {
+    return `${action} ${chosenLabel}: the closest stop, ${nearestLabel}, has no trip that works for this plan.`
   }
-  return { stop: nearest, distanceKm: nearestDistance }
+  const savedMinutes = Math.round(
+    mode === 'arrive'
+      ? itinerary.departureMinutes - baseline.departureMinutes
+      : baseline.arrivalMinutes - itinerary.arrivalMinutes
+  )
+  if (savedMinutes < 1) {
+    return `${action} ${chosenLabel} instead of the closest stop, ${nearestLabel}: it needs fewer transfers or less walking.`
+  }
+  return `${action} ${chosenLabel} instead of the closest stop, ${nearestLabel}: ${
+    mode === 'arrive' ? `you can leave ${savedMinutes} min later` : `you arrive ${savedMinutes} min sooner`
+  } door to door.`
 }
 
 const theme = createTheme({
@@ -320,10 +357,6 @@ function App() {
   const [addressLoading, setAddressLoading] = useState(false)
   const [addressResult, setAddressResult] = useState<AddressResult | null>(null)
   const [addressError, setAddressError] = useState<string | null>(null)
-  const [addressClosestStop, setAddressClosestStop] = useState<{
-    stop: Stop
-    distanceKm: number
-  } | null>(null)
   const [destinationInput, setDestinationInput] = useState('')
   const [destinationSelection, setDestinationSelection] = useState<AddressSuggestion | null>(null)
   const [destinationOptions, setDestinationOptions] = useState<AddressSuggestion[]>([])
@@ -331,140 +364,255 @@ function App() {
   const [destinationResult, setDestinationResult] = useState<AddressResult | null>(null)
   const [destinationError, setDestinationError] = useState<string | null>(null)
   const [mapsError, setMapsError] = useState<string | null>(null)
+  const [gtfsFeed, setGtfsFeed] = useState<GtfsFeed | null>(null)
+  const [gtfsOrigin, setGtfsOrigin] = useState<GtfsFeedOrigin | null>(null)
+  const [gtfsError, setGtfsError] = useState<string | null>(null)
+  const [online, setOnline] = useState(() => navigator.onLine)
+  // Bumped when the connection comes back so the loader checks for a newer feed.
+  const [feedCheck, setFeedCheck] = useState(0)
+  const [serviceAlerts, setServiceAlerts] = useState<ServiceAlert[]>([])
+  const [alertsError, setAlertsError] = useState<string | null>(null)
+  const [alertsOpen, setAlertsOpen] = useState(false)
+  const [realtimeSnapshot, setRealtimeSnapshot] = useState<RealtimeSnapshot | null>(null)
+  const [realtimeClock, setRealtimeClock] = useState(() => Math.floor(Date.now() / 1000))
   const [nowMinutes, setNowMinutes] = useState(getNowMinutes)
+  const [serviceDate, setServiceDate] = useState(() => getServiceDate(new Date(), gtfsTimeZone))
+  const [tripTimeMode, setTripTimeMode] = useState<TripTimeMode>(initialPlanLink.mode)
+  const [tripDate, setTripDate] = useState(
+    () => initialPlanLink.date ?? serviceDateToIsoDate(serviceDate)
+  )
+  const [tripTime, setTripTime] = useState(
+    () => initialPlanLink.time ?? minutesToClockTime(nowMinutes)
+  )
+  const [maxWalkMeters, setMaxWalkMeters] = useState(() => linkWalkMeters(initialPlanLink))
+  const [walkingSpeedKmh, setWalkingSpeedKmh] = useState(() =>
+    linkWalkingSpeedKmh(initialPlanLink)
+  )
+  const [wheelchairAccessible, setWheelchairAccessible] = useState(
+    initialPlanLink.wheelchairAccessible
+  )
+  const [bikesOnBoard, setBikesOnBoard] = useState(initialPlanLink.bikesOnBoard)
+  // Places from the URL wait here until the stops are loaded and they can be resolved.
+  const [pendingPlanLink, setPendingPlanLink] = useState<PlanLink | null>(() =>
+    initialPlanLink.from || initialPlanLink.to ? initialPlanLink : null
+  )
+  const [shareNote, setShareNote] = useState<string | null>(null)
+  const [savedPlaces, setSavedPlaces] = useState(loadSavedPlaces)
+  const [boardStopParam, setBoardStopParam] = useState(() =>
+    new URLSearchParams(window.location.search).get('stop')
+  )
   const addressTimeout = useRef<number | null>(null)
   const destinationTimeout = useRef<number | null>(null)
-  const mapsPromise = useRef<Promise<typeof window.google> | null>(null)
-
-  const stops = useMemo<Stop[]>(() => {
-    return parseCsv(stopsRaw).map((row) => ({
-      stop_id: row.stop_id,
-      stop_code: row.stop_code,
-      stop_name: row.stop_name,
-      stop_lat: Number(row.stop_lat),
-      stop_lon: Number(row.stop_lon),
-    }))
-  }, [googleMapsApiKey])
-
-  const serviceBounds = useMemo<Bounds | null>(() => {
-    if (stops.length === 0) return null
-    let minLat = Infinity
-    let maxLat = -Infinity
-    let minLon = Infinity
-    let maxLon = -Infinity
-    stops.forEach((stop) => {
-      if (stop.stop_lat < minLat) minLat = stop.stop_lat
-      if (stop.stop_lat > maxLat) maxLat = stop.stop_lat
-      if (stop.stop_lon < minLon) minLon = stop.stop_lon
-      if (stop.stop_lon > maxLon) maxLon = stop.stop_lon
-    })
-    return {
-      minLat: minLat - serviceAreaPadding,
-      maxLat: maxLat + serviceAreaPadding,
-      minLon: minLon - serviceAreaPadding,
-      maxLon: maxLon + serviceAreaPadding,
-    }
-  }, [stops])
+  const planLinkRestored = useRef(false)
+  const [mapRendererFactory, setMapRendererFactory] =
+    useState<MapRendererFactory>(() => createSvgMapRenderer)
 
-  const routes = useMemo<Route[]>(() => {
-    return parseCsv(routesRaw).map((row) => ({
-      route_id: row.route_id,
-      route_short_name: row.route_short_name,
-      route_long_name: row.route_long_name,
-    }))
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      setFeedCheck((count) => count + 1)
+    }
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
   }, [])
 
-  const trips = useMemo<Trip[]>(() => {
-    return parseCsv(tripsRaw).map((row) => ({
-      trip_id: row.trip_id,
-      route_id: row.route_id,
-      trip_headsign: row.trip_headsign,
-      trip_short_name: row.trip_short_name,
-    }))
-  }, [])
+  useEffect(() => {
+    const controller = new AbortController()
+    loadGtfsFeed(gtfsSource, controller.signal)
+      .then(({ feed, origin }) => {
+        // Keep the current objects when a recheck finds the same version, so nothing replans.
+        setGtfsFeed((current) =>
+          current && origin !== 'network' && current.feedVersion === feed.feedVersion
+            ? current
+            : feed
+        )
+        setGtfsOrigin(origin)
+        setGtfsError(null)
+      })
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          setGtfsError(
+            error instanceof Error
+              ? `Unable to load the bus schedule. ${error.message}`
+              : 'Unable to load the bus schedule.'
+          )
+        }
+      })
+    return () => controller.abort()
+  }, [feedCheck])
 
-  const stopTimesByTrip = useMemo(() => {
-    const stopTimes = parseCsv(stopTimesRaw).map((row) => ({
-      trip_id: row.trip_id,
-      arrival_time: row.arrival_time,
-      departure_time: row.departure_time,
-      stop_id: row.stop_id,
-      stop_sequence: Number(row.stop_sequence),
-    }))
-    const grouped = new Map<string, StopTime[]>()
-    stopTimes.forEach((stopTime) => {
-      const list = grouped.get(stopTime.trip_id) ?? []
-      list.push(stopTime)
-      grouped.set(stopTime.trip_id, list)
-    })
-    grouped.forEach((list) => list.sort((a, b) => a.stop_sequence - b.stop_sequence))
-    return grouped
-  }, [])
+  const feed = gtfsFeed ?? emptyGtfsFeed
+  const { stops, routes, trips, shapesById, calendars, calendarExceptions, stopTimesByTrip } = feed
 
-  const stopById = useMemo(() => {
-    return new Map(stops.map((stop) => [stop.stop_id, stop]))
-  }, [stops])
+  const serviceBounds = useMemo(() => computeStopBounds(stops, serviceAreaPadding), [stops])
+
+  const geocoder = useMemo<GeocodingProvider>(() => {
+    const local = createLocalGeocodingProvider(stops)
+    if (!googleMapsApiKey) return local
+    return createMergedGeocodingProvider(
+      createGoogleGeocodingProvider(googleMapsApiKey, serviceBounds),
+      local
+    )
+  }, [serviceBounds, stops])
+
+  const todayService = useMemo(
+    () => getServiceDay({ trips, calendars, calendarExceptions }, serviceDate),
+    [calendarExceptions, calendars, serviceDate, trips]
+  )
+  const {
+    serviceIds: todayServiceIds,
+    trips: todayTrips,
+    nextServiceDate: todayNextServiceDate,
+  } = todayService
+
+  const todayServiceNote = useMemo(() => {
+    if (todayServiceIds.size > 0) return null
+    return todayNextServiceDate
+      ? `There is no bus service today. The next service day is ${formatServiceDate(
+          todayNextServiceDate
+        )}.`
+      : 'There is no bus service today.'
+  }, [todayNextServiceDate, todayServiceIds])
+
+  const timetableTrips = useMemo(() => {
+    if (todayServiceIds.size > 0 || !todayNextServiceDate) return todayTrips
+    return getServiceDay({ trips, calendars, calendarExceptions }, todayNextServiceDate).trips
+  }, [calendarExceptions, calendars, todayNextServiceDate, todayServiceIds, todayTrips, trips])
+
+  const planServiceDate = useMemo(() => {
+    if (tripTimeMode === 'now' || !tripDate) return serviceDate
+    return isoDateToServiceDate(tripDate)
+  }, [serviceDate, tripDate, tripTimeMode])
+
+  const planMinutes = useMemo(() => {
+    if (tripTimeMode === 'now' || !tripTime) return nowMinutes
+    return timeToMinutes(tripTime)
+  }, [nowMinutes, tripTime, tripTimeMode])
+
+  const planService = useMemo(
+    () => getServiceDay({ trips, calendars, calendarExceptions }, planServiceDate),
+    [calendarExceptions, calendars, planServiceDate, trips]
+  )
+  const { serviceIds: activeServiceIds, nextServiceDate } = planService
 
   const routeById = useMemo(() => {
     return new Map(routes.map((route) => [route.route_id, route]))
   }, [routes])
 
-  const ensureGoogleMaps = useCallback(async () => {
-    if (!googleMapsApiKey) {
-      const message = 'Google Maps API key is missing.'
-      setMapsError(message)
-      throw new Error(message)
+  const stopById = useMemo(() => {
+    return new Map(stops.map((stop) => [stop.stop_id, stop]))
+  }, [stops])
+
+  const boardStop = useMemo(() => {
+    if (!boardStopParam) return null
+    return (
+      stops.find(
+        (stop) => stop.stop_id === boardStopParam || stop.stop_code === boardStopParam
+      ) ?? null
+    )
+  }, [boardStopParam, stops])
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    if (boardStop) {
+      params.set('stop', boardStop.stop_code || boardStop.stop_id)
+    } else {
+      params.delete('stop')
+    }
+    const search = params.toString()
+    window.history.replaceState(
+      window.history.state,
+      '',
+      `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`
+    )
+  }, [boardStop])
+
+  useEffect(() => {
+    if (!googleMapsApiKey) return
+    loadGoogleMaps(googleMapsApiKey)
+      .then((googleMaps) => {
+        setMapRendererFactory(() => createGoogleMapRendererFactory(googleMaps))
+      })
+      .catch(() => {
+        setMapsError('Unable to load Google Maps. Showing the offline map instead.')
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!serviceAlertsUrl) return
+    const controller = new AbortController()
+    const refresh = () => {
+      fetchServiceAlerts(serviceAlertsUrl, controller.signal)
+        .then((alerts) => {
+          setServiceAlerts(alerts)
+          setAlertsError(null)
+        })
+        .catch(() => {
+          if (!controller.signal.aborted) {
+            setAlertsError('Unable to load service alerts. Showing the last known alerts.')
+          }
+        })
     }
-    if (!mapsPromise.current) {
-      mapsPromise.current = loadGoogleMaps(googleMapsApiKey)
+    refresh()
+    const timer = window.setInterval(refresh, serviceAlertsRefreshMs)
+    return () => {
+      controller.abort()
+      window.clearInterval(timer)
     }
-    return mapsPromise.current
   }, [])
 
+  const nowEpochSeconds = useMemo(
+    () => serviceTimeToEpochSeconds(serviceDate, nowMinutes, gtfsTimeZone),
+    [nowMinutes, serviceDate]
+  )
+
+  const currentAlerts = useMemo(
+    () => serviceAlerts.filter((alert) => isAlertActive(alert, nowEpochSeconds)),
+    [nowEpochSeconds, serviceAlerts]
+  )
+
+  const upcomingAlerts = useMemo(
+    () => serviceAlerts.filter((alert) => isAlertUpcoming(alert, nowEpochSeconds)),
+    [nowEpochSeconds, serviceAlerts]
+  )
+
   useEffect(() => {
-    if (!googleMapsApiKey) {
-      setMapsError('Google Maps API key is missing.')
-      return
+    if (realtimeFeedUrls.length === 0) return
+    const controller = new AbortController()
+    const refresh = () => {
+      setRealtimeClock(Math.floor(Date.now() / 1000))
+      fetchRealtimeSnapshot(realtimeFeedUrls, controller.signal)
+        .then(setRealtimeSnapshot)
+        .catch(() => {
+          // Keep the previous snapshot; it falls back to the schedule once it goes stale.
+        })
     }
-    ensureGoogleMaps().catch(() => {
-      setMapsError('Unable to load Google Maps. Check the API key and network.')
-    })
-  }, [ensureGoogleMaps])
-
-  const fetchPlacePredictions = async (query: string) => {
-    const googleMaps = await ensureGoogleMaps()
-    const bounds = buildGoogleBounds(serviceBounds)
-    return new Promise<AddressSuggestion[]>((resolve) => {
-      const service = new googleMaps.maps.places.AutocompleteService()
-      service.getPlacePredictions(
-        {
-          input: query,
-          componentRestrictions: { country: 'ca' },
-          types: ['address'],
-          bounds: bounds ?? undefined,
-          strictBounds: Boolean(bounds),
-        },
-        (predictions, status) => {
-          if (
-            status !== googleMaps.maps.places.PlacesServiceStatus.OK ||
-            !predictions
-          ) {
-            resolve([])
-            return
-          }
-          resolve(
-            predictions
-              .filter((prediction) => Boolean(prediction.place_id))
-              .map((prediction) => ({
-                description: prediction.description,
-                place_id: prediction.place_id as string,
-                source: 'google' as const,
-              }))
-          )
-        }
-      )
-    })
-  }
+    refresh()
+    const timer = window.setInterval(refresh, realtimeRefreshMs)
+    return () => {
+      controller.abort()
+      window.clearInterval(timer)
+    }
+  }, [])
+
+  const todayRealtime = useMemo<RealtimeContext | null>(() => {
+    if (!realtimeSnapshot || !isSnapshotFresh(realtimeSnapshot, realtimeClock)) return null
+    return { snapshot: realtimeSnapshot, stopTimesByTrip, serviceDate, timeZone: gtfsTimeZone }
+  }, [realtimeClock, realtimeSnapshot, serviceDate, stopTimesByTrip])
+
+  const canceledTripKey = useMemo(() => {
+    if (!todayRealtime) return ''
+    return [...todayRealtime.snapshot.tripUpdates.values()]
+      .filter((trip) => trip.canceled && (!trip.startDate || trip.startDate === serviceDate))
+      .map((trip) => trip.tripId)
+      .sort()
+      .join('|')
+  }, [serviceDate, todayRealtime])
 
   const lookupAddressSuggestions = async (query: string) => {
     if (!query.trim()) {
@@ -479,11 +627,11 @@ function App() {
     }
     setMapsError(null)
     try {
-      const options = await fetchPlacePredictions(query.trim())
+      const options = await geocoder.suggest(query.trim())
       setAddressOptions(options)
     } catch {
       setAddressOptions([])
-      setMapsError('Unable to load Google Maps suggestions.')
+      setMapsError('Unable to load address suggestions.')
     } finally {
       setAddressLoading(false)
     }
@@ -502,61 +650,23 @@ function App() {
     }
     setMapsError(null)
     try {
-      const options = await fetchPlacePredictions(query.trim())
+      const options = await geocoder.suggest(query.trim())
       setDestinationOptions(options)
     } catch {
       setDestinationOptions([])
-      setMapsError('Unable to load Google Maps suggestions.')
+      setMapsError('Unable to load address suggestions.')
     } finally {
       setDestinationLoading(false)
     }
   }
 
-  const geocodeAddress = async (query: string) => {
-    const googleMaps = await ensureGoogleMaps()
-    const bounds = buildGoogleBounds(serviceBounds)
-    return new Promise<GoogleGeocoderResult | null>((resolve) => {
-      const geocoder = new googleMaps.maps.Geocoder()
-      geocoder.geocode(
-        {
-          address: query,
-          componentRestrictions: { country: 'CA' },
-          bounds: bounds ?? undefined,
-        },
-        (results, status) => {
-          if (status !== googleMaps.maps.GeocoderStatus.OK || !results?.length) {
-            resolve(null)
-            return
-          }
-          resolve(results[0] as GoogleGeocoderResult)
-        }
-      )
-    })
-  }
-
-  const geocodePlaceId = async (placeId: string) => {
-    const googleMaps = await ensureGoogleMaps()
-    return new Promise<GoogleGeocoderResult | null>((resolve) => {
-      const geocoder = new googleMaps.maps.Geocoder()
-      geocoder.geocode({ placeId }, (results, status) => {
-        if (status !== googleMaps.maps.GeocoderStatus.OK || !results?.length) {
-          resolve(null)
-          return
-        }
-        resolve(results[0] as GoogleGeocoderResult)
-      })
-    })
-  }
-
   const applyAddressLocation = (address: string, location: { lat: number; lng: number }) => {
     setAddressResult({ address, location })
     if (!destination) {
-      setAddressClosestStop(null)
       setOrigin(null)
       return
     }
     const nearest = findNearestStop(stops, location.lat, location.lng)
-    setAddressClosestStop(nearest)
     setOrigin(nearest.stop)
   }
 
@@ -573,7 +683,6 @@ function App() {
 
   const handleAddressSelect = async (_: unknown, value: AddressSuggestion | string | null) => {
     setAddressResult(null)
-    setAddressClosestStop(null)
     setAddressError(null)
     setMapsError(null)
     if (!value) {
@@ -588,22 +697,19 @@ function App() {
         setAddressSelection(null)
         return
       }
-      const result =
-        typeof value === 'string'
-          ? await geocodeAddress(query)
-          : await geocodePlaceId(value.place_id)
-      if (!result || !isMooseJawGoogleResult(result)) {
-        setAddressError('Only Moose Jaw addresses are supported.')
-        return
-      }
-      const location = getGoogleLocation(result)
-      if (!location || !isWithinBounds(location.lat, location.lng, serviceBounds)) {
+      const place =
+        typeof value === 'string' ? await geocoder.geocode(query) : await geocoder.resolve(value)
+      if (
+        !place ||
+        !place.inServiceArea ||
+        !isWithinBounds(place.location.lat, place.location.lng, serviceBounds)
+      ) {
         setAddressError('Only Moose Jaw addresses are supported.')
         return
       }
-      const description = result.formatted_address ?? query
-      const placeId = result.place_id ?? (typeof value === 'string' ? query : value.place_id)
-      setAddressSelection({ description, place_id: placeId, source: 'google' })
+      const { location } = place
+      const description = place.address
+      setAddressSelection({ description, place_id: place.place_id, source: place.source })
       setAddressInput(description)
       if (stops.length === 0) {
         return
@@ -627,7 +733,6 @@ function App() {
       setDestinationSelection(null)
       setDestination(null)
       setOrigin(null)
-      setAddressClosestStop(null)
       return
     }
     setDestinationLoading(true)
@@ -637,22 +742,19 @@ function App() {
         setDestinationSelection(null)
         return
       }
-      const result =
-        typeof value === 'string'
-          ? await geocodeAddress(query)
-          : await geocodePlaceId(value.place_id)
-      if (!result || !isMooseJawGoogleResult(result)) {
+      const place =
+        typeof value === 'string' ? await geocoder.geocode(query) : await geocoder.resolve(value)
+      if (
+        !place ||
+        !place.inServiceArea ||
+        !isWithinBounds(place.location.lat, place.location.lng, serviceBounds)
+      ) {
         setDestinationError('Only Moose Jaw addresses are supported.')
         return
       }
-      const location = getGoogleLocation(result)
-      if (!location || !isWithinBounds(location.lat, location.lng, serviceBounds)) {
-        setDestinationError('Only Moose Jaw addresses are supported.')
-        return
-      }
-      const description = result.formatted_address ?? query
-      const placeId = result.place_id ?? (typeof value === 'string' ? query : value.place_id)
-      setDestinationSelection({ description, place_id: placeId, source: 'google' })
+      const { location } = place
+      const description = place.address
+      setDestinationSelection({ description, place_id: place.place_id, source: place.source })
       setDestinationInput(description)
       applyDestinationLocation(description, location)
     } catch {
@@ -662,16 +764,10 @@ function App() {
     }
   }
 
-  const boardDirectionsUrl = useMemo(() => {
-    if (!addressResult || !addressClosestStop) return null
-    const originParam = encodeURIComponent(addressResult.address)
-    const destParam = `${addressClosestStop.stop.stop_lat},${addressClosestStop.stop.stop_lon}`
-    return `https://www.google.com/maps/dir/?api=1&origin=${originParam}&destination=${destParam}&travelmode=walking`
-  }, [addressClosestStop, addressResult])
-
   useEffect(() => {
     const timer = window.setInterval(() => {
       setNowMinutes(getNowMinutes())
+      setServiceDate(getServiceDate(new Date(), gtfsTimeZone))
     }, 60000)
     return () => window.clearInterval(timer)
   }, [])
@@ -683,260 +779,433 @@ function App() {
       addressResult.location.lat,
       addressResult.location.lng
     )
-    setAddressClosestStop(nearest)
     setOrigin(nearest.stop)
   }, [addressResult, destination, stops])
 
-  const planResult = useMemo(() => {
-    if (!origin || !destination) return null
-    if (origin.stop_id === destination.stop_id) {
-      return { kind: 'error' as const, error: 'Pick two different stops to build a route.' }
+  useEffect(() => {
+    if (!pendingPlanLink || stops.length === 0) return
+    const from = resolvePlanLinkPlace(pendingPlanLink.from, stops, serviceBounds)
+    const to = resolvePlanLinkPlace(pendingPlanLink.to, stops, serviceBounds)
+    setAddressOptions([])
+    setAddressError(null)
+    setAddressSelection(from?.selection ?? null)
+    setAddressInput(from?.result.address ?? '')
+    setAddressResult(from?.result ?? null)
+    setDestinationOptions([])
+    setDestinationError(null)
+    setDestinationSelection(to?.selection ?? null)
+    setDestinationInput(to?.result.address ?? '')
+    setDestinationResult(to?.result ?? null)
+    setDestination(
+      to ? findNearestStop(stops, to.result.location.lat, to.result.location.lng).stop : null
+    )
+    setOrigin(null)
+    setPendingPlanLink(null)
+    planLinkRestored.current = true
+  }, [pendingPlanLink, serviceBounds, stops])
+
+  const planLink = useMemo<PlanLink>(
+    () => ({
+      from: toPlanLinkPlace(addressSelection, addressResult),
+      to: toPlanLinkPlace(destinationSelection, destinationResult),
+      mode: tripTimeMode,
+      date: tripDate || null,
+      time: tripTime || null,
+      walkMeters:
+        maxWalkMeters === defaultPlannerOptions.maxAccessWalkKm * 1000 ? null : maxWalkMeters,
+      walkingSpeedKmh:
+        walkingSpeedKmh === defaultPlannerOptions.walkingSpeedKmh ? null : walkingSpeedKmh,
+      wheelchairAccessible,
+      bikesOnBoard,
+    }),
+    [
+      addressResult,
+      addressSelection,
+      bikesOnBoard,
+      destinationResult,
+      destinationSelection,
+      maxWalkMeters,
+      tripDate,
+      tripTime,
+      tripTimeMode,
+      walkingSpeedKmh,
+      wheelchairAccessible,
+    ]
+  )
+
+  // A new origin or destination adds a history entry so back and forward step through plans;
+  // time and option changes, and places that could not be restored, only update the current
+  // entry.
+  useEffect(() => {
+    if (pendingPlanLink || addressLoading || destinationLoading) return
+    const restored = planLinkRestored.current
+    planLinkRestored.current = false
+    const search = writePlanLink(window.location.search, planLink)
+    if (search === window.location.search.replace(/^\?/, '')) return
+    const current = readPlanLink(window.location.search)
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`
+    if (
+      restored ||
+      (isSamePlanLinkPlace(current.from, planLink.from) &&
+        isSamePlanLinkPlace(current.to, planLink.to))
+    ) {
+      window.history.replaceState(window.history.state, '', url)
+    } else {
+      window.history.pushState(null, '', url)
     }
+  }, [addressLoading, destinationLoading, pendingPlanLink, planLink])
 
-    const destinationLocation = destinationResult?.location ?? null
-    const pickClosestStopAfterBoard = (
-      stopTimes: StopTime[],
-      boardIndex: number,
-      boardMinutes: number
-    ) => {
-      if (!destinationLocation) return null
-      let closest: { stopTime: StopTime; stop: Stop; distanceKm: number } | null = null
-      for (let i = boardIndex + 1; i < stopTimes.length; i += 1) {
-        const stopTime = stopTimes[i]
-        if (timeToMinutes(stopTime.arrival_time) <= boardMinutes) {
-          continue
-        }
-        const stop = stopById.get(stopTime.stop_id)
-        if (!stop) continue
-        const distanceKm = haversineDistanceKm(
-          stop,
-          destinationLocation.lat,
-          destinationLocation.lng
-        )
-        if (!closest || distanceKm < closest.distanceKm) {
-          closest = { stopTime, stop, distanceKm }
-        }
-      }
-      return closest
+  useEffect(() => {
+    const handlePopState = () => {
+      const link = readPlanLink(window.location.search)
+      setTripTimeMode(link.mode)
+      if (link.date) setTripDate(link.date)
+      if (link.time) setTripTime(link.time)
+      setMaxWalkMeters(linkWalkMeters(link))
+      setWalkingSpeedKmh(linkWalkingSpeedKmh(link))
+      setWheelchairAccessible(link.wheelchairAccessible)
+      setBikesOnBoard(link.bikesOnBoard)
+      setBoardStopParam(new URLSearchParams(window.location.search).get('stop'))
+      setPendingPlanLink(link)
     }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
 
-    const candidates: CandidateTrip[] = []
-    trips.forEach((trip) => {
-      const stopTimes = stopTimesByTrip.get(trip.trip_id)
-      if (!stopTimes) return
-      const boardIndex = stopTimes.findIndex((time) => time.stop_id === origin.stop_id)
-      if (boardIndex < 0) return
-      const boardTime = stopTimes[boardIndex]
-      let alightTime: StopTime | null = null
-      let alightStop: Stop | null = null
-      let exactDestination = false
-      const destinationIndex = stopTimes.findIndex(
-        (time, index) => index > boardIndex && time.stop_id === destination.stop_id
-      )
-      if (destinationIndex >= 0) {
-        const candidate = stopTimes[destinationIndex]
-        if (timeToMinutes(candidate.arrival_time) > timeToMinutes(boardTime.departure_time)) {
-          alightTime = candidate
-          alightStop = stopById.get(candidate.stop_id) ?? null
-          exactDestination = true
-        }
-      }
-      if (!alightTime || !alightStop) {
-        const closest = pickClosestStopAfterBoard(
-          stopTimes,
-          boardIndex,
-          timeToMinutes(boardTime.departure_time)
-        )
-        if (closest) {
-          alightTime = closest.stopTime
-          alightStop = closest.stop
-        }
-      }
-      if (!alightTime || !alightStop) return
-      if (boardTime.stop_sequence >= alightTime.stop_sequence) return
-      const boardStop = stopById.get(boardTime.stop_id)
-      if (!boardStop || !alightStop) return
-      const walkDistanceKm =
-        destinationLocation && alightStop
-          ? haversineDistanceKm(
-              alightStop,
-              destinationLocation.lat,
-              destinationLocation.lng
-            )
-          : null
-      candidates.push({
-        trip,
-        route: routeById.get(trip.route_id),
-        boardStop,
-        alightStop,
-        boardTime: boardTime.departure_time,
-        alightTime: alightTime.arrival_time,
-        boardSequence: boardTime.stop_sequence,
-        alightSequence: alightTime.stop_sequence,
-        walkDistanceKm,
-        exactDestination,
-      })
-    })
+  const updateSavedPlaces = (next: SavedPlaces) => {
+    setSavedPlaces(next)
+    storeSavedPlaces(next)
+  }
 
-    const sortedByPreference = [...candidates].sort((a, b) => {
-      if (a.exactDestination !== b.exactDestination) {
-        return a.exactDestination ? -1 : 1
-      }
-      const aWalk = a.walkDistanceKm ?? Number.POSITIVE_INFINITY
-      const bWalk = b.walkDistanceKm ?? Number.POSITIVE_INFINITY
-      if (aWalk !== bWalk) return aWalk - bWalk
-      return timeToMinutes(a.boardTime) - timeToMinutes(b.boardTime)
-    })
-    if (sortedByPreference.length > 0) {
-      const upcoming = sortedByPreference.filter(
-        (candidate) => timeToMinutes(candidate.boardTime) >= nowMinutes
-      )
-      if (upcoming.length === 0) {
-        const [nextTrip, ...alternatives] = sortedByPreference
-        return {
-          kind: 'direct' as const,
-          nextTrip,
-          alternatives,
-          serviceNote: 'No more departures today. Showing the next available trip.',
-        }
-      }
-      const [nextTrip, ...alternatives] = upcoming
+  const applySavedOrigin = (place: PlanLinkPlace) => {
+    const resolved = resolvePlanLinkPlace(place, stops, serviceBounds)
+    setAddressOptions([])
+    setGeoError(null)
+    if (!resolved) {
+      setAddressError('That saved place is no longer in the bus service area.')
+      return
+    }
+    setAddressError(null)
+    setAddressSelection(resolved.selection)
+    setAddressInput(resolved.result.address)
+    applyAddressLocation(resolved.result.address, resolved.result.location)
+  }
 
-      return { kind: 'direct' as const, nextTrip, alternatives }
+  const applySavedDestination = (place: PlanLinkPlace) => {
+    const resolved = resolvePlanLinkPlace(place, stops, serviceBounds)
+    setDestinationOptions([])
+    if (!resolved) {
+      setDestinationError('That saved place is no longer in the bus service area.')
+      return
     }
+    setDestinationError(null)
+    setDestinationSelection(resolved.selection)
+    setDestinationInput(resolved.result.address)
+    applyDestinationLocation(resolved.result.address, resolved.result.location)
+  }
 
-    const createLeg = (
-      trip: Trip,
-      boardTime: StopTime,
-      alightTime: StopTime
-    ): CandidateTrip | null => {
-      const boardStop = stopById.get(boardTime.stop_id)
-      const alightStop = stopById.get(alightTime.stop_id)
-      if (!boardStop || !alightStop) return null
-      return {
-        trip,
-        route: routeById.get(trip.route_id),
-        boardStop,
-        alightStop,
-        boardTime: boardTime.departure_time,
-        alightTime: alightTime.arrival_time,
-        boardSequence: boardTime.stop_sequence,
-        alightSequence: alightTime.stop_sequence,
-        walkDistanceKm: null,
-        exactDestination: false,
+  const applyFavouriteTrip = (trip: FavouriteTrip) => {
+    applySavedDestination(trip.to)
+    applySavedOrigin(trip.from)
+  }
+
+  const savedLabelFor = (place: PlanLinkPlace | null, fallback: string) =>
+    savedPlaces.places.find((item) => isSamePlanLinkPlace(item.place, place))?.label ?? fallback
+
+  const isFavouritePlan = savedPlaces.trips.some(
+    (trip) =>
+      isSamePlanLinkPlace(trip.from, planLink.from) && isSamePlanLinkPlace(trip.to, planLink.to)
+  )
+
+  const handleSaveTrip = () => {
+    if (!planLink.from || !planLink.to || !addressResult || !destinationResult) return
+    updateSavedPlaces(
+      saveFavouriteTrip(
+        savedPlaces,
+        `${savedLabelFor(planLink.from, addressResult.address)} to ${savedLabelFor(
+          planLink.to,
+          destinationResult.address
+        )}`,
+        planLink.from,
+        planLink.to
+      )
+    )
+  }
+
+  const handleSharePlan = async () => {
+    const url = window.location.href
+    if (canSharePlan) {
+      try {
+        await navigator.share({ title: 'Moose Jaw bus trip', url })
+        return
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return
       }
     }
+    try {
+      await navigator.clipboard.writeText(url)
+      setShareNote('Link copied.')
+    } catch {
+      setShareNote('Copy the address from your browser to share this plan.')
+    }
+    window.setTimeout(() => setShareNote(null), 4000)
+  }
 
-    const leg2ByStop = new Map<string, CandidateTrip[]>()
-    trips.forEach((trip) => {
-      const stopTimes = stopTimesByTrip.get(trip.trip_id)
-      if (!stopTimes) return
-      const destIndex = stopTimes.findIndex((time) => time.stop_id === destination.stop_id)
-      if (destIndex <= 0) return
-      const alightTime = stopTimes[destIndex]
-      for (let i = 0; i < destIndex; i += 1) {
-        const boardTime = stopTimes[i]
-        const leg2 = createLeg(trip, boardTime, alightTime)
-        if (!leg2) continue
-        const list = leg2ByStop.get(boardTime.stop_id) ?? []
-        list.push(leg2)
-        leg2ByStop.set(boardTime.stop_id, list)
-      }
-    })
-
-    const transferPlans: TransferPlan[] = []
-    trips.forEach((trip) => {
-      const stopTimes = stopTimesByTrip.get(trip.trip_id)
-      if (!stopTimes) return
-      const originIndex = stopTimes.findIndex((time) => time.stop_id === origin.stop_id)
-      if (originIndex < 0 || originIndex >= stopTimes.length - 1) return
-      const boardTime = stopTimes[originIndex]
-      for (let i = originIndex + 1; i < stopTimes.length; i += 1) {
-        const alightTime = stopTimes[i]
-        const leg1 = createLeg(trip, boardTime, alightTime)
-        if (!leg1) continue
-        const leg2Options = leg2ByStop.get(alightTime.stop_id)
-        if (!leg2Options) continue
-        for (const leg2 of leg2Options) {
-          const layover = minutesBetween(leg1.alightTime, leg2.boardTime)
-          if (layover < 0) continue
-          const totalMinutes = minutesBetween(leg1.boardTime, leg2.alightTime)
-          if (totalMinutes < 0) continue
-          transferPlans.push({
-            firstLeg: leg1,
-            secondLeg: leg2,
-            transferStop: leg1.alightStop,
-            layoverMinutes: layover,
-            totalMinutes,
-          })
-        }
-      }
-    })
+  const plannerOptions = useMemo<PlannerOptions>(
+    () => ({
+      ...defaultPlannerOptions,
+      maxAccessWalkKm: maxWalkMeters / 1000,
+      walkingSpeedKmh,
+      wheelchairAccessible,
+      bikesOnBoard,
+    }),
+    [bikesOnBoard, maxWalkMeters, walkingSpeedKmh, wheelchairAccessible]
+  )
 
-    if (transferPlans.length === 0) {
-      return { kind: 'error' as const, error: 'No trips found between those stops.' }
-    }
+  const networkForDay = useMemo(
+    () =>
+      createNetworkForDay(
+        { stops, routes, stopTimesByTrip },
+        plannerOptions,
+        canceledTripKey
+          ? { serviceDate, tripIds: new Set(canceledTripKey.split('|')) }
+          : null
+      ),
+    [canceledTripKey, plannerOptions, routes, serviceDate, stopTimesByTrip, stops]
+  )
+
+  const originAccess = useMemo(() => {
+    if (!addressResult) return []
+    return findAccessPoints(
+      stops,
+      addressResult.location.lat,
+      addressResult.location.lng,
+      plannerOptions
+    )
+  }, [addressResult, plannerOptions, stops])
 
-    const sortedTransfers = [...transferPlans].sort((a, b) => {
-      const timeDiff = timeToMinutes(a.firstLeg.boardTime) - timeToMinutes(b.firstLeg.boardTime)
-      if (timeDiff !== 0) return timeDiff
-      return a.totalMinutes - b.totalMinutes
-    })
-    const upcomingTransfers = sortedTransfers.filter(
-      (candidate) => timeToMinutes(candidate.firstLeg.boardTime) >= nowMinutes
+  const destinationAccess = useMemo(() => {
+    if (!destinationResult) return []
+    return findAccessPoints(
+      stops,
+      destinationResult.location.lat,
+      destinationResult.location.lng,
+      plannerOptions
     )
-    if (upcomingTransfers.length === 0) {
-      const [nextTransfer, ...alternatives] = sortedTransfers
+  }, [destinationResult, plannerOptions, stops])
+
+  const schedulePlan = useMemo(() => {
+    if (!origin || !destination) return null
+    const outcome = planTrip(
+      { trips, calendars, calendarExceptions },
+      networkForDay,
+      {
+        origin,
+        destination,
+        originAccess,
+        destinationAccess,
+        mode: tripTimeMode,
+        serviceDate: planServiceDate,
+        minutes: planMinutes,
+      },
+      plannerOptions
+    )
+    if (outcome.kind === 'same-stop') {
+      return { kind: 'error' as const, error: 'Pick two different stops to build a route.' }
+    }
+    if (outcome.kind === 'no-service') {
       return {
-        kind: 'transfer' as const,
-        nextTransfer,
-        alternatives,
-        serviceNote: 'No more departures today. Showing the next available trip.',
+        kind: 'error' as const,
+        error: outcome.nextServiceDate
+          ? `No buses run on ${formatServiceDate(
+              planServiceDate
+            )}. Service resumes ${formatServiceDate(outcome.nextServiceDate)}.`
+          : `No buses run on ${formatServiceDate(planServiceDate)}.`,
       }
     }
-    const [nextTransfer, ...alternatives] = upcomingTransfers
-
-    return { kind: 'transfer' as const, nextTransfer, alternatives }
+    if (outcome.kind === 'no-trips') {
+      return {
+        kind: 'error' as const,
+        error:
+          tripTimeMode === 'arrive'
+            ? `No trips arrive by ${formatTime(
+                minutesToClockTime(planMinutes)
+              )} on ${formatServiceDate(planServiceDate)}.`
+            : plannerOptions.wheelchairAccessible || plannerOptions.bikesOnBoard
+              ? 'No trips found between those stops that match your accessibility and bike settings.'
+              : 'No trips found between those stops.',
+      }
+    }
+    const { itinerary, alternatives } = outcome
+    const departureDate = addServiceDays(
+      itinerary.serviceDate,
+      Math.floor(itinerary.departureMinutes / 1440)
+    )
+    if (departureDate <= planServiceDate) {
+      return { kind: 'itinerary' as const, itinerary, alternatives }
+    }
+    const departureLabel = formatServiceInstant(
+      itinerary.serviceDate,
+      itinerary.departureMinutes,
+      serviceDate
+    )
+    return {
+      kind: 'itinerary' as const,
+      itinerary,
+      alternatives,
+      serviceNote:
+        tripTimeMode === 'now'
+          ? `No more departures today. Showing the next available trip (${departureLabel}).`
+          : `No departures after ${formatTime(
+              minutesToClockTime(planMinutes)
+            )} on ${formatServiceDate(
+              planServiceDate
+            )}. Showing the next available trip (${departureLabel}).`,
+    }
   }, [
+    calendarExceptions,
+    calendars,
     destination,
-    destinationResult,
-    nowMinutes,
+    destinationAccess,
+    networkForDay,
     origin,
-    routeById,
-    stopById,
-    stopTimesByTrip,
+    originAccess,
+    planMinutes,
+    planServiceDate,
+    plannerOptions,
+    serviceDate,
+    tripTimeMode,
+    trips,
+  ])
+
+  // Realtime only covers trips on today's service day.
+  const planResult = useMemo(() => {
+    if (schedulePlan?.kind !== 'itinerary' || !todayRealtime) return schedulePlan
+    const withRealtime = (itinerary: PlannedItinerary) =>
+      itinerary.serviceDate === serviceDate
+        ? applyRealtimeToItinerary(itinerary, todayRealtime)
+        : itinerary
+    return {
+      ...schedulePlan,
+      itinerary: withRealtime(schedulePlan.itinerary),
+      alternatives: schedulePlan.alternatives.map(withRealtime),
+    }
+  }, [schedulePlan, serviceDate, todayRealtime])
+
+  const stopChoiceNotes = useMemo(() => {
+    if (planResult?.kind !== 'itinerary') return []
+    const { itinerary } = planResult
+    // Compare against the same service day and start time the chosen itinerary came from.
+    const network = networkForDay(
+      getServiceDay({ trips, calendars, calendarExceptions }, itinerary.serviceDate)
+    )
+    const notes: string[] = []
+    if (originAccess.length > 0) {
+      const baseline = searchItineraries(
+        network,
+        { origins: originAccess.slice(0, 1), destinations: destinationAccess },
+        tripTimeMode,
+        itinerary.requestedMinutes,
+        plannerOptions
+      )[0]
+      notes.push(
+        explainStopChoice('board', itinerary.access, originAccess, itinerary, baseline, tripTimeMode)
+      )
+    }
+    if (destinationAccess.length > 0) {
+      const baseline = searchItineraries(
+        network,
+        { origins: originAccess, destinations: destinationAccess.slice(0, 1) },
+        tripTimeMode,
+        itinerary.requestedMinutes,
+        plannerOptions
+      )[0]
+      notes.push(
+        explainStopChoice(
+          'alight',
+          itinerary.egress,
+          destinationAccess,
+          itinerary,
+          baseline,
+          tripTimeMode
+        )
+      )
+    }
+    return notes
+  }, [
+    calendarExceptions,
+    calendars,
+    destinationAccess,
+    networkForDay,
+    originAccess,
+    planResult,
+    plannerOptions,
+    tripTimeMode,
     trips,
   ])
 
+  const planLegs = useMemo<CandidateTrip[]>(
+    () => (planResult?.kind === 'itinerary' ? planResult.itinerary.legs : []),
+    [planResult]
+  )
+
+  const boardDirectionsUrl = useMemo(() => {
+    const boardStop = planLegs[0]?.boardStop
+    if (!addressResult || !boardStop) return null
+    const originParam = encodeURIComponent(addressResult.address)
+    const destParam = `${boardStop.stop_lat},${boardStop.stop_lon}`
+    return `https://www.google.com/maps/dir/?api=1&origin=${originParam}&destination=${destParam}&travelmode=walking`
+  }, [addressResult, planLegs])
+
   const alightDirectionsUrl = useMemo(() => {
-    if (!destinationResult || !planResult) return null
-    const alightStop =
-      planResult.kind === 'direct'
-        ? planResult.nextTrip.alightStop
-        : planResult.kind === 'transfer'
-          ? planResult.nextTransfer.secondLeg.alightStop
-          : null
-    if (!alightStop) return null
+    const alightStop = planLegs[planLegs.length - 1]?.alightStop
+    if (!destinationResult || !alightStop) return null
     const originParam = `${alightStop.stop_lat},${alightStop.stop_lon}`
     const destParam = encodeURIComponent(destinationResult.address)
     return `https://www.google.com/maps/dir/?api=1&origin=${originParam}&destination=${destParam}&travelmode=walking`
-  }, [destinationResult, planResult])
+  }, [destinationResult, planLegs])
 
   const alightWalkDistanceKm = useMemo(() => {
-    if (!destinationResult || !planResult) return null
-    const alightStop =
-      planResult.kind === 'direct'
-        ? planResult.nextTrip.alightStop
-        : planResult.kind === 'transfer'
-          ? planResult.nextTransfer.secondLeg.alightStop
-          : null
-    if (!alightStop) return null
+    const alightStop = planLegs[planLegs.length - 1]?.alightStop
+    if (!destinationResult || !alightStop) return null
     return haversineDistanceKm(
       alightStop,
       destinationResult.location.lat,
       destinationResult.location.lng
     )
-  }, [destinationResult, planResult])
+  }, [destinationResult, planLegs])
+
+  const mapScene = useMemo<MapScene>(
+    () =>
+      buildItineraryScene({
+        routes,
+        trips,
+        stops,
+        shapesById,
+        legs: planLegs,
+        transfers: planResult?.kind === 'itinerary' ? planResult.itinerary.transfers : [],
+        origin: addressResult,
+        destination: destinationResult,
+        vehicles: todayRealtime ? getFreshVehicles(todayRealtime.snapshot, realtimeClock) : [],
+      }),
+    [
+      addressResult,
+      destinationResult,
+      planLegs,
+      planResult,
+      realtimeClock,
+      routes,
+      shapesById,
+      stops,
+      todayRealtime,
+      trips,
+    ]
+  )
+
+  const mappedRoutes = useMemo(
+    () => routes.filter((route) => trips.some((trip) => trip.route_id === route.route_id)),
+    [routes, trips]
+  )
 
   const handleUseMyLocation = () => {
     if (!navigator.geolocation) {
@@ -960,7 +1229,6 @@ function App() {
         setAddressOptions([])
         setAddressSelection(null)
         setAddressResult(null)
-        setAddressClosestStop(null)
         const location = { lat: latitude, lng: longitude }
         if (!isWithinBounds(location.lat, location.lng, serviceBounds)) {
           setGeoError('Your location is outside Moose Jaw transit service area.')
@@ -970,36 +1238,20 @@ function App() {
         }
         let address = 'Current location'
         try {
-          const googleMaps = await ensureGoogleMaps()
-          const geocoder = new googleMaps.maps.Geocoder()
-          const results = await new Promise<GoogleGeocoderResult[] | null>((resolve) => {
-            geocoder.geocode(
-              { location: { lat: latitude, lng: longitude } },
-              (geocodeResults, status) => {
-                if (status !== googleMaps.maps.GeocoderStatus.OK || !geocodeResults?.length) {
-                  resolve(null)
-                  return
-                }
-                resolve(geocodeResults as GoogleGeocoderResult[])
-              }
-            )
-          })
-          if (results?.length) {
-            const top = results[0]
-            if (!isMooseJawGoogleResult(top)) {
+          const place = await geocoder.reverseGeocode(location)
+          if (place) {
+            if (!place.inServiceArea) {
               setGeoError('Your location is outside Moose Jaw transit service area.')
               setGeolocating(false)
               setAddressLoading(false)
               return
             }
-            if (top.formatted_address) {
-              address = top.formatted_address
-              setAddressSelection({
-                description: top.formatted_address,
-                place_id: top.place_id ?? top.formatted_address,
-                source: 'google',
-              })
-            }
+            address = place.address
+            setAddressSelection({
+              description: place.address,
+              place_id: place.place_id,
+              source: place.source,
+            })
           }
         } catch {
           // If reverse geocoding fails, keep a simple label.
@@ -1040,7 +1292,6 @@ function App() {
       setDestinationResult(nextDestinationResult)
       setDestination(null)
       setOrigin(null)
-      setAddressClosestStop(null)
       return
     }
 
@@ -1058,7 +1309,6 @@ function App() {
 
     setAddressResult(nextAddressResult)
     setOrigin(null)
-    setAddressClosestStop(null)
   }
 
   return (
@@ -1091,15 +1341,43 @@ function App() {
             >
               Moose Jaw Transit Guide
             </Typography>
-            <Button
-              variant="outlined"
+            {!online ? (
+              <Chip
+                icon={<CloudOff />}
+                color="secondary"
+                label={
+                  gtfsFeed?.feedVersion
+                    ? `Offline - schedule data from feed version ${gtfsFeed.feedVersion}`
+                    : 'Offline - using the schedule saved on this device'
+                }
+                sx={{ mr: { sm: 2 } }}
+              />
+            ) : null}
+            <Badge
+              badgeContent={currentAlerts.length}
               color="secondary"
               sx={{ width: { xs: '100%', sm: 'auto' } }}
             >
-              Service Alerts
-            </Button>
+              <Button
+                variant="outlined"
+                color="secondary"
+                onClick={() => setAlertsOpen(true)}
+                sx={{ width: { xs: '100%', sm: 'auto' } }}
+              >
+                Service Alerts
+              </Button>
+            </Badge>
           </Toolbar>
         </AppBar>
+        <ServiceAlertsDrawer
+          open={alertsOpen}
+          onClose={() => setAlertsOpen(false)}
+          alerts={upcomingAlerts}
+          routeById={routeById}
+          stopById={stopById}
+          timeZone={gtfsTimeZone}
+          error={alertsError}
+        />
 
         <Container sx={{ py: { xs: 4, md: 8 } }}>
           <Grid container spacing={4} alignItems="center">
@@ -1118,6 +1396,28 @@ function App() {
                 <Typography variant="body1" color="text.secondary">
                   Find the next bus, track the closest stop, and board with confidence.
                 </Typography>
+                {gtfsError ? (
+                  <Alert severity="error">{gtfsError}</Alert>
+                ) : !gtfsFeed ? (
+                  <Stack direction="row" spacing={1.5} alignItems="center">
+                    <CircularProgress size={18} />
+                    <Typography variant="body2" color="text.secondary">
+                      Loading the bus schedule...
+                    </Typography>
+                  </Stack>
+                ) : gtfsOrigin === 'offline-cache' ? (
+                  <Alert severity="info">
+                    The schedule server could not be reached, so the copy saved on this device is
+                    shown.
+                  </Alert>
+                ) : null}
+                {gtfsFeed && gtfsFeed.issueCounts.errors > 0 && (
+                  <Alert severity="warning">
+                    {gtfsFeed.issueCounts.errors} problem
+                    {gtfsFeed.issueCounts.errors === 1 ? ' was' : 's were'} found in the schedule
+                    feed. The affected rows were skipped, so some trips or stops may be missing.
+                  </Alert>
+                )}
               </Stack>
             </Grid>
           </Grid>
@@ -1151,8 +1451,29 @@ function App() {
                     </Box>
                   </Stack>
 
+                  <FavouriteTrips
+                    saved={savedPlaces}
+                    onChange={updateSavedPlaces}
+                    onSelect={applyFavouriteTrip}
+                  />
+
                   <Grid container spacing={2} alignItems="center">
                     <Grid item xs={12} md={7}>
+                      <SavedPlaceChips
+                        places={savedPlaces.places}
+                        currentAddress={planLink.from ? (addressResult?.address ?? null) : null}
+                        onSelect={(saved) => applySavedOrigin(saved.place)}
+                        onSave={(label) => {
+                          if (!planLink.from) return
+                          updateSavedPlaces(savePlace(savedPlaces, label, planLink.from))
+                        }}
+                        onRemove={(id) =>
+                          updateSavedPlaces({
+                            ...savedPlaces,
+                            places: savedPlaces.places.filter((item) => item.id !== id),
+                          })
+                        }
+                      />
                       <Autocomplete
                         freeSolo
                         options={addressOptions}
@@ -1168,7 +1489,6 @@ function App() {
                           if (reason === 'clear') {
                             setAddressOptions([])
                             setAddressSelection(null)
-                            setAddressClosestStop(null)
                             setAddressResult(null)
                             setOrigin(null)
                             setAddressLoading(false)
@@ -1186,13 +1506,14 @@ function App() {
                         isOptionEqualToValue={(option, value) =>
                           typeof value !== 'string' && option.place_id === value.place_id
                         }
+                        renderOption={renderAddressOption}
                         loading={addressLoading}
                         renderInput={(params) => (
                           <TextField
                             {...params}
                             label="Enter your address"
-                            placeholder="Start with your street address"
-                            helperText="We will pick the closest stop on a route once both addresses are set."
+                            placeholder="Street address, stop or landmark"
+                            helperText="We will compare nearby stops once both addresses are set."
                           />
                         )}
                       />
@@ -1217,14 +1538,29 @@ function App() {
                     </Grid>
                     <Grid item xs={12} md={3}>
                       <Typography variant="body2" color="text.secondary">
-                        Address search uses Google Maps. Closest in-route stops appear after both
-                        addresses are set.
+                        Address search uses {geocoder.label}. Nearby stops are compared after
+                        both addresses are set.
                       </Typography>
                     </Grid>
                   </Grid>
 
                   <Grid container spacing={2} alignItems="center">
                     <Grid item xs={12} md={8}>
+                      <SavedPlaceChips
+                        places={savedPlaces.places}
+                        currentAddress={planLink.to ? (destinationResult?.address ?? null) : null}
+                        onSelect={(saved) => applySavedDestination(saved.place)}
+                        onSave={(label) => {
+                          if (!planLink.to) return
+                          updateSavedPlaces(savePlace(savedPlaces, label, planLink.to))
+                        }}
+                        onRemove={(id) =>
+                          updateSavedPlaces({
+                            ...savedPlaces,
+                            places: savedPlaces.places.filter((item) => item.id !== id),
+                          })
+                        }
+                      />
                       <Autocomplete
                         freeSolo
                         options={destinationOptions}
@@ -1243,7 +1579,6 @@ function App() {
                             setDestination(null)
                             setDestinationLoading(false)
                             setOrigin(null)
-                            setAddressClosestStop(null)
                             return
                           }
                           setDestinationLoading(true)
@@ -1259,13 +1594,14 @@ function App() {
                         isOptionEqualToValue={(option, value) =>
                           typeof value !== 'string' && option.place_id === value.place_id
                         }
+                        renderOption={renderAddressOption}
                         loading={destinationLoading}
                         renderInput={(params) => (
                           <TextField
                             {...params}
                             label="Destination address"
-                            placeholder="Where are you headed?"
-                            helperText="We will select the closest stop to your destination."
+                            placeholder="Address, stop or landmark"
+                            helperText="We will compare stops within walking distance of your destination."
                           />
                         )}
                       />
@@ -1284,6 +1620,128 @@ function App() {
                     </Grid>
                   </Grid>
 
+                  <Grid container spacing={2} alignItems="center">
+                    <Grid item xs={12} md={5}>
+                      <ToggleButtonGroup
+                        exclusive
+                        fullWidth
+                        size="small"
+                        color="primary"
+                        value={tripTimeMode}
+                        onChange={(_, value: TripTimeMode | null) => {
+                          if (!value) return
+                          if (tripTimeMode === 'now') {
+                            setTripDate(serviceDateToIsoDate(serviceDate))
+                            setTripTime(minutesToClockTime(nowMinutes))
+                          }
+                          setTripTimeMode(value)
+                        }}
+                      >
+                        <ToggleButton value="now">Leave now</ToggleButton>
+                        <ToggleButton value="depart">Leave at</ToggleButton>
+                        <ToggleButton value="arrive">Arrive by</ToggleButton>
+                      </ToggleButtonGroup>
+                    </Grid>
+                    <Grid item xs={6} md={4}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        type="date"
+                        label="Date"
+                        value={tripDate}
+                        onChange={(event) => setTripDate(event.target.value)}
+                        disabled={tripTimeMode === 'now'}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                    </Grid>
+                    <Grid item xs={6} md={3}>
+                      <TextField
+                        fullWidth
+                        size="small"
+                        type="time"
+                        label={tripTimeMode === 'arrive' ? 'Arrive by' : 'Leave at'}
+                        value={tripTime}
+                        onChange={(event) => setTripTime(event.target.value)}
+                        disabled={tripTimeMode === 'now'}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                    </Grid>
+                  </Grid>
+
+                  <Grid container spacing={2} alignItems="center">
+                    <Grid item xs={6} md={3}>
+                      <TextField
+                        select
+                        fullWidth
+                        size="small"
+                        label="Max walk to a stop"
+                        value={maxWalkMeters}
+                        onChange={(event) => setMaxWalkMeters(Number(event.target.value))}
+                      >
+                        {walkRadiusOptions.map((meters) => (
+                          <MenuItem key={meters} value={meters}>
+                            {meters} m
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </Grid>
+                    <Grid item xs={6} md={3}>
+                      <TextField
+                        select
+                        fullWidth
+                        size="small"
+                        label="Walking pace"
+                        value={walkingSpeedKmh}
+                        onChange={(event) => setWalkingSpeedKmh(Number(event.target.value))}
+                      >
+                        {walkingPaceOptions.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    </Grid>
+                    <Grid item xs={12} md={6}>
+                      <Typography variant="body2" color="text.secondary">
+                        Every stop within this distance of your start and destination is
+                        considered; the plan picks the fastest door-to-door option.
+                      </Typography>
+                    </Grid>
+                    <Grid item xs={12} sm={6} md={3}>
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={wheelchairAccessible}
+                            onChange={(event) => setWheelchairAccessible(event.target.checked)}
+                          />
+                        }
+                        label="Wheelchair accessible trips"
+                      />
+                    </Grid>
+                    <Grid item xs={12} sm={6} md={3}>
+                      <FormControlLabel
+                        control={
+                          <Switch
+                            checked={bikesOnBoard}
+                            onChange={(event) => setBikesOnBoard(event.target.checked)}
+                          />
+                        }
+                        label="Bringing a bike"
+                      />
+                    </Grid>
+                  </Grid>
+
+                  {activeServiceIds.size === 0 ? (
+                    <Alert severity="info">
+                      {planServiceDate === serviceDate
+                        ? `There is no bus service today (${formatServiceDate(serviceDate)}).`
+                        : `There is no bus service on ${formatServiceDate(planServiceDate)}.`}{' '}
+                      {nextServiceDate
+                        ? `The next service day is ${formatServiceDate(nextServiceDate)}.`
+                        : 'No upcoming service days are published in the schedule.'}
+                    </Alert>
+                  ) : null}
+
                   {geoError && <Alert severity="warning">{geoError}</Alert>}
                   {addressError && <Alert severity="warning">{addressError}</Alert>}
                   {destinationError && <Alert severity="warning">{destinationError}</Alert>}
@@ -1299,7 +1757,7 @@ function App() {
 
                   {origin && destination && planResult?.kind === 'error' ? (
                     <Alert severity="warning">{planResult.error}</Alert>
-                  ) : origin && destination && planResult?.kind === 'direct' ? (
+                  ) : origin && destination && planResult?.kind === 'itinerary' ? (
                     <Grid container spacing={2}>
                       {planResult.serviceNote ? (
                         <Grid item xs={12}>
@@ -1311,261 +1769,240 @@ function App() {
                       <Grid item xs={12} md={7}>
                         <Card variant="outlined" sx={{ borderRadius: 3 }}>
                           <CardContent>
-                            <Stack spacing={2}>
+                            <Stack spacing={2.5}>
                               <Stack
                                 direction={{ xs: 'column', sm: 'row' }}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
                                 spacing={1}
-                              >
-                                <Chip
-                                  label={`Route ${
-                                    planResult.nextTrip.route?.route_short_name ?? 'Local'
-                                  }`}
-                                  color="secondary"
-                                />
-                                <Typography variant="h6" sx={{ fontWeight: 700 }}>
-                                  {planResult.nextTrip.route?.route_long_name ?? 'Local route'}
-                                </Typography>
-                              </Stack>
-                              <Typography variant="body2" color="text.secondary">
-                                Headed toward {planResult.nextTrip.trip.trip_headsign}
-                              </Typography>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
                                 alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                justifyContent="space-between"
                               >
-                                <Place color="primary" fontSize="small" />
-                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                  Board at {planResult.nextTrip.boardStop.stop_name}
+                                <Typography variant="body2" color="text.secondary">
+                                  {describeItinerary(planResult.itinerary, serviceDate)}
                                 </Typography>
-                                {boardDirectionsUrl ? (
+                                <Stack direction="row" spacing={1} alignItems="center">
+                                  {shareNote ? (
+                                    <Typography variant="caption" color="text.secondary">
+                                      {shareNote}
+                                    </Typography>
+                                  ) : null}
                                   <Button
                                     size="small"
                                     variant="outlined"
                                     color="secondary"
-                                    startIcon={<DirectionsWalk />}
-                                    href={boardDirectionsUrl}
-                                    target="_blank"
-                                    rel="noreferrer"
+                                    startIcon={isFavouritePlan ? <Star /> : <StarBorder />}
+                                    onClick={handleSaveTrip}
+                                    disabled={isFavouritePlan}
                                   >
-                                    Walk to stop
+                                    {isFavouritePlan ? 'Saved' : 'Save trip'}
                                   </Button>
-                                ) : null}
-                              </Stack>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <AccessTime color="primary" fontSize="small" />
-                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                  Board at {formatTime(planResult.nextTrip.boardTime)}
-                                </Typography>
-                              </Stack>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <ArrowForward color="action" fontSize="small" />
-                                <Typography variant="body2" color="text.secondary">
-                                  Arrive by {formatTime(planResult.nextTrip.alightTime)} at{' '}
-                                  {planResult.nextTrip.alightStop.stop_name}
-                                </Typography>
+                                  <Button
+                                    size="small"
+                                    variant="outlined"
+                                    startIcon={canSharePlan ? <Share /> : <ContentCopy />}
+                                    onClick={handleSharePlan}
+                                  >
+                                    {canSharePlan ? 'Share' : 'Copy link'}
+                                  </Button>
+                                </Stack>
                               </Stack>
-                              {alightWalkDistanceKm !== null ? (
+                              {stopChoiceNotes.map((note) => (
                                 <Stack
-                                  direction={{ xs: 'column', sm: 'row' }}
-                                  spacing={2}
-                                  alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                  key={note}
+                                  direction="row"
+                                  spacing={1.5}
+                                  alignItems="flex-start"
                                 >
                                   <DirectionsWalk color="action" fontSize="small" />
                                   <Typography variant="body2" color="text.secondary">
-                                    Walk about {alightWalkDistanceKm.toFixed(2)} km to destination
+                                    {note}
                                   </Typography>
                                 </Stack>
-                              ) : null}
-                              {alightDirectionsUrl ? (
-                                <Button
-                                  size="small"
-                                  variant="outlined"
-                                  color="secondary"
-                                  startIcon={<DirectionsWalk />}
-                                  href={alightDirectionsUrl}
-                                  target="_blank"
-                                  rel="noreferrer"
-                                >
-                                  Walk from stop to destination
-                                </Button>
-                              ) : null}
-                            </Stack>
-                          </CardContent>
-                        </Card>
-                      </Grid>
-                      <Grid item xs={12} md={5}>
-                        <Card variant="outlined" sx={{ borderRadius: 3 }}>
-                          <CardContent>
-                            <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>
-                              Other departures
-                            </Typography>
-                            {planResult.alternatives.length === 0 ? (
-                              <Typography variant="body2" color="text.secondary">
-                                No other direct trips for this pair.
-                              </Typography>
-                            ) : (
-                              <List dense>
-                                {planResult.alternatives.slice(0, 4).map((candidate) => (
-                                  <ListItem key={candidate.trip.trip_id}>
-                                    <ListItemIcon>
-                                      <DirectionsBus color="action" />
-                                    </ListItemIcon>
-                                    <ListItemText
-                                      primary={`Route ${candidate.route?.route_short_name ?? 'Local'} ${formatTime(
-                                        candidate.boardTime
-                                      )}`}
-                                      secondary={`Board at ${candidate.boardStop.stop_name}`}
-                                    />
-                                  </ListItem>
-                                ))}
-                              </List>
-                            )}
-                          </CardContent>
-                        </Card>
-                      </Grid>
-                    </Grid>
-                  ) : origin && destination && planResult?.kind === 'transfer' ? (
-                    <Grid container spacing={2}>
-                      {planResult.serviceNote ? (
-                        <Grid item xs={12}>
-                          <Typography variant="body2" color="text.secondary">
-                            {planResult.serviceNote}
-                          </Typography>
-                        </Grid>
-                      ) : null}
-                      <Grid item xs={12} md={7}>
-                        <Card variant="outlined" sx={{ borderRadius: 3 }}>
-                          <CardContent>
-                            <Stack spacing={2.5}>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                                spacing={1}
-                              >
-                                <Chip
-                                  label={`Route ${
-                                    planResult.nextTransfer.firstLeg.route?.route_short_name ??
-                                    'Local'
-                                  }`}
-                                  color="secondary"
-                                />
-                                <Typography variant="h6" sx={{ fontWeight: 700 }}>
-                                  First leg to {planResult.nextTransfer.transferStop.stop_name}
-                                </Typography>
-                              </Stack>
-                              <Typography variant="body2" color="text.secondary">
-                                Headed toward {planResult.nextTransfer.firstLeg.trip.trip_headsign}
-                              </Typography>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <Place color="primary" fontSize="small" />
-                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                  Board at {planResult.nextTransfer.firstLeg.boardStop.stop_name}
-                                </Typography>
-                                {boardDirectionsUrl ? (
-                                  <Button
-                                    size="small"
-                                    variant="outlined"
-                                    color="secondary"
-                                    startIcon={<DirectionsWalk />}
-                                    href={boardDirectionsUrl}
-                                    target="_blank"
-                                    rel="noreferrer"
+                              ))}
+                              {planResult.itinerary.legs.map((leg, index) => {
+                                const transfer = planResult.itinerary.transfers[index - 1]
+                                const formatLegTime = (time: string) =>
+                                  formatServiceInstant(
+                                    planResult.itinerary.serviceDate,
+                                    timeToMinutes(time),
+                                    serviceDate
+                                  )
+                                const legAlerts = findLegAlerts(
+                                  serviceAlerts,
+                                  leg,
+                                  planResult.itinerary.serviceDate
+                                )
+                                const legDirection = describeTripDirection(
+                                  getTripDirection(
+                                    leg.trip,
+                                    stopTimesByTrip.get(leg.trip.trip_id),
+                                    stopById
+                                  )
+                                )
+                                const wheelchairStatus = getLegWheelchairStatus(leg)
+                                const bikesStatus = getLegBikesStatus(leg)
+                                return (
+                                  <Stack
+                                    key={`${leg.trip.trip_id}-${leg.boardSequence}`}
+                                    spacing={2}
                                   >
-                                    Walk to stop
-                                  </Button>
-                                ) : null}
-                              </Stack>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <AccessTime color="primary" fontSize="small" />
-                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                  Board at {formatTime(planResult.nextTransfer.firstLeg.boardTime)}
-                                </Typography>
-                              </Stack>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <ArrowForward color="action" fontSize="small" />
-                                <Typography variant="body2" color="text.secondary">
-                                  Arrive by{' '}
-                                  {formatTime(planResult.nextTransfer.firstLeg.alightTime)} at{' '}
-                                  {planResult.nextTransfer.transferStop.stop_name}
-                                </Typography>
-                              </Stack>
-
-                              <Divider />
-
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                                spacing={1}
-                              >
-                                <Chip
-                                  label={`Route ${
-                                    planResult.nextTransfer.secondLeg.route?.route_short_name ??
-                                    'Local'
-                                  }`}
-                                  color="secondary"
-                                />
-                                <Typography variant="h6" sx={{ fontWeight: 700 }}>
-                                  Second leg to{' '}
-                                  {planResult.nextTransfer.secondLeg.alightStop.stop_name}
-                                </Typography>
-                              </Stack>
-                              <Typography variant="body2" color="text.secondary">
-                                Headed toward {planResult.nextTransfer.secondLeg.trip.trip_headsign}
-                              </Typography>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <Place color="primary" fontSize="small" />
-                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                  Board at {planResult.nextTransfer.secondLeg.boardStop.stop_name}
-                                </Typography>
-                              </Stack>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <AccessTime color="primary" fontSize="small" />
-                                <Typography variant="body1" sx={{ fontWeight: 600 }}>
-                                  Board at {formatTime(planResult.nextTransfer.secondLeg.boardTime)}
-                                </Typography>
-                              </Stack>
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <ArrowForward color="action" fontSize="small" />
-                                <Typography variant="body2" color="text.secondary">
-                                  Arrive by{' '}
-                                  {formatTime(planResult.nextTransfer.secondLeg.alightTime)} at{' '}
-                                  {planResult.nextTransfer.secondLeg.alightStop.stop_name}
-                                </Typography>
-                              </Stack>
+                                    {transfer ? (
+                                      <>
+                                        <Divider />
+                                        <Stack
+                                          direction={{ xs: 'column', sm: 'row' }}
+                                          spacing={2}
+                                          alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                        >
+                                          <SwapHoriz color="action" fontSize="small" />
+                                          <Typography variant="body2" color="text.secondary">
+                                            {transfer.fromStop.stop_id === transfer.toStop.stop_id
+                                              ? `Transfer at ${transfer.fromStop.stop_name}`
+                                              : `Walk ${Math.round(
+                                                  transfer.walkDistanceKm * 1000
+                                                )} m from ${transfer.fromStop.stop_name} to ${
+                                                  transfer.toStop.stop_name
+                                                }`}{' '}
+                                            {transfer.layoverMinutes < 0
+                                              ? '- connection may be missed, the bus is running late'
+                                              : `- layover ${Math.round(transfer.layoverMinutes)} min`}
+                                          </Typography>
+                                        </Stack>
+                                      </>
+                                    ) : null}
+                                    <Stack
+                                      direction={{ xs: 'column', sm: 'row' }}
+                                      alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                      spacing={1}
+                                    >
+                                      <Chip
+                                        label={`Route ${leg.route?.route_short_name ?? 'Local'}`}
+                                        color="secondary"
+                                      />
+                                      <Typography variant="h6" sx={{ fontWeight: 700 }}>
+                                        {planResult.itinerary.legs.length === 1
+                                          ? (leg.route?.route_long_name ?? 'Local route')
+                                          : `Leg ${index + 1} to ${leg.alightStop.stop_name}`}
+                                      </Typography>
+                                      <Stack direction="row" spacing={0.5}>
+                                        <Tooltip title={wheelchairStatus.label}>
+                                          {wheelchairStatus.color === 'error' ? (
+                                            <NotAccessible color="error" fontSize="small" />
+                                          ) : (
+                                            <Accessible
+                                              color={wheelchairStatus.color}
+                                              fontSize="small"
+                                            />
+                                          )}
+                                        </Tooltip>
+                                        <Tooltip title={bikesStatus.label}>
+                                          <DirectionsBike
+                                            color={bikesStatus.color}
+                                            fontSize="small"
+                                          />
+                                        </Tooltip>
+                                      </Stack>
+                                    </Stack>
+                                    <Typography variant="body2" color="text.secondary">
+                                      Headed toward {leg.trip.trip_headsign}
+                                      {legDirection ? ` (${legDirection})` : ''}
+                                    </Typography>
+                                    {legAlerts.map((alert) => (
+                                      <Alert
+                                        key={alert.id}
+                                        severity="warning"
+                                        action={
+                                          <Button
+                                            color="inherit"
+                                            size="small"
+                                            onClick={() => setAlertsOpen(true)}
+                                          >
+                                            Details
+                                          </Button>
+                                        }
+                                      >
+                                        {alert.header}
+                                      </Alert>
+                                    ))}
+                                    <Stack
+                                      direction={{ xs: 'column', sm: 'row' }}
+                                      spacing={2}
+                                      alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                    >
+                                      <Place color="primary" fontSize="small" />
+                                      <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                                        Board at {leg.boardStop.stop_name}
+                                      </Typography>
+                                      {index === 0 && boardDirectionsUrl ? (
+                                        <Button
+                                          size="small"
+                                          variant="outlined"
+                                          color="secondary"
+                                          startIcon={<DirectionsWalk />}
+                                          href={boardDirectionsUrl}
+                                          target="_blank"
+                                          rel="noreferrer"
+                                        >
+                                          Walk to stop
+                                        </Button>
+                                      ) : null}
+                                    </Stack>
+                                    <Stack
+                                      direction={{ xs: 'column', sm: 'row' }}
+                                      spacing={2}
+                                      alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                    >
+                                      <AccessTime color="primary" fontSize="small" />
+                                      <Typography variant="body1" sx={{ fontWeight: 600 }}>
+                                        {describeHeadway(leg.trip)
+                                          ? `Buses come ${describeHeadway(leg.trip)}`
+                                          : `Board at ${
+                                              leg.boardTimeEstimated ? 'about ' : ''
+                                            }${formatLegTime(leg.boardTime)}`}
+                                      </Typography>
+                                      <Chip
+                                        size="small"
+                                        variant="outlined"
+                                        label={describeLegRealtime(leg)}
+                                        color={
+                                          leg.realtime?.status === 'live'
+                                            ? 'success'
+                                            : leg.realtime?.status === 'canceled'
+                                              ? 'error'
+                                              : 'default'
+                                        }
+                                      />
+                                    </Stack>
+                                    <Stack
+                                      direction={{ xs: 'column', sm: 'row' }}
+                                      spacing={2}
+                                      alignItems={{ xs: 'flex-start', sm: 'center' }}
+                                    >
+                                      <ArrowForward color="action" fontSize="small" />
+                                      <Typography variant="body2" color="text.secondary">
+                                        {describeHeadway(leg.trip)
+                                          ? `Ride about ${Math.round(
+                                              timeToMinutes(leg.alightTime) -
+                                                timeToMinutes(leg.boardTime)
+                                            )} min to`
+                                          : leg.alightTimeEstimated
+                                            ? `Arrive about ${formatLegTime(leg.alightTime)} at`
+                                            : `Arrive by ${formatLegTime(leg.alightTime)} at`}{' '}
+                                        {leg.alightStop.stop_name}
+                                        {getRideDistanceKm(leg) !== null
+                                          ? ` (${getRideDistanceKm(leg)?.toFixed(1)} km on the bus)`
+                                          : ''}
+                                      </Typography>
+                                    </Stack>
+                                    <LegStopList
+                                      leg={leg}
+                                      stopTimes={stopTimesByTrip.get(leg.trip.trip_id) ?? []}
+                                      stopById={stopById}
+                                      shape={shapesById.get(leg.trip.shape_id)}
+                                      formatStopTime={formatLegTime}
+                                    />
+                                  </Stack>
+                                )
+                              })}
                               {alightWalkDistanceKm !== null ? (
                                 <Stack
                                   direction={{ xs: 'column', sm: 'row' }}
@@ -1591,16 +2028,6 @@ function App() {
                                   Walk from stop to destination
                                 </Button>
                               ) : null}
-                              <Stack
-                                direction={{ xs: 'column', sm: 'row' }}
-                                spacing={2}
-                                alignItems={{ xs: 'flex-start', sm: 'center' }}
-                              >
-                                <AccessTime color="action" fontSize="small" />
-                                <Typography variant="body2" color="text.secondary">
-                                  Layover: {Math.round(planResult.nextTransfer.layoverMinutes)} min
-                                </Typography>
-                              </Stack>
                             </Stack>
                           </CardContent>
                         </Card>
@@ -1609,26 +2036,43 @@ function App() {
                         <Card variant="outlined" sx={{ borderRadius: 3 }}>
                           <CardContent>
                             <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>
-                              Other transfer options
+                              Other options
                             </Typography>
                             {planResult.alternatives.length === 0 ? (
                               <Typography variant="body2" color="text.secondary">
-                                No other two-leg trips for this pair.
+                                No other trips for this pair.
                               </Typography>
                             ) : (
                               <List dense>
-                                {planResult.alternatives.slice(0, 4).map((candidate, index) => (
-                                  <ListItem key={`${candidate.firstLeg.trip.trip_id}-${index}`}>
+                                {planResult.alternatives.slice(0, 4).map((candidate) => (
+                                  <ListItem key={itineraryKey(candidate)}>
                                     <ListItemIcon>
-                                      <DirectionsBus color="action" />
+                                      {candidate.legs.some(
+                                        (leg) =>
+                                          findLegAlerts(serviceAlerts, leg, candidate.serviceDate)
+                                            .length > 0
+                                      ) ? (
+                                        <WarningAmber color="secondary" />
+                                      ) : (
+                                        <DirectionsBus color="action" />
+                                      )}
                                     </ListItemIcon>
                                     <ListItemText
-                                      primary={`Routes ${
-                                        candidate.firstLeg.route?.route_short_name ?? 'Local'
-                                      } -> ${candidate.secondLeg.route?.route_short_name ?? 'Local'} - ${formatTime(
-                                        candidate.firstLeg.boardTime
-                                      )}`}
-                                      secondary={`Transfer at ${candidate.transferStop.stop_name}`}
+                                      primary={`${
+                                        candidate.legs.length === 1 ? 'Route' : 'Routes'
+                                      } ${candidate.legs
+                                        .map((leg) => leg.route?.route_short_name ?? 'Local')
+                                        .join(' -> ')} - ${
+                                        describeHeadway(candidate.legs[0].trip) ??
+                                        `${
+                                          candidate.legs[0].boardTimeEstimated ? 'about ' : ''
+                                        }${formatServiceInstant(
+                                          candidate.serviceDate,
+                                          timeToMinutes(candidate.legs[0].boardTime),
+                                          serviceDate
+                                        )}`
+                                      }`}
+                                      secondary={describeItinerary(candidate, serviceDate)}
                                     />
                                   </ListItem>
                                 ))}
@@ -1643,6 +2087,68 @@ function App() {
               </Paper>
             </Grid>
 
+            <Grid item xs={12}>
+              <DepartureBoard
+                stops={stops}
+                trips={todayTrips}
+                stopTimesByTrip={stopTimesByTrip}
+                routeById={routeById}
+                nowMinutes={nowMinutes}
+                selectedStopId={boardStop?.stop_id ?? null}
+                onSelectStop={setBoardStopParam}
+                serviceNote={todayServiceNote}
+                alerts={currentAlerts}
+                realtime={todayRealtime}
+              />
+            </Grid>
+
+            <Grid item xs={12}>
+              <RouteTimetable
+                routes={mappedRoutes}
+                trips={timetableTrips}
+                stopTimesByTrip={stopTimesByTrip}
+                stopById={stopById}
+                nowMinutes={todayServiceIds.size > 0 ? nowMinutes : null}
+                serviceDateLabel={
+                  todayNextServiceDate ? formatServiceDate(todayNextServiceDate) : null
+                }
+              />
+            </Grid>
+
+            <Grid item xs={12}>
+              <Paper
+                elevation={0}
+                sx={{
+                  p: { xs: 3, md: 4 },
+                  borderRadius: 4,
+                  background: 'rgba(255, 255, 255, 0.92)',
+                  boxShadow: '0 20px 45px rgba(31, 78, 95, 0.15)',
+                }}
+              >
+                <Stack spacing={2}>
+                  <Stack direction="row" alignItems="center" spacing={1.5}>
+                    <Place color="primary" />
+                    <Typography variant="h5" sx={{ fontWeight: 700 }}>
+                      Route map
+                    </Typography>
+                  </Stack>
+                  <RouteMap scene={mapScene} rendererFactory={mapRendererFactory} />
+                  <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+                    {mappedRoutes.map((route) => (
+                      <Chip
+                        key={route.route_id}
+                        label={`Route ${route.route_short_name} - ${route.route_long_name}`}
+                        size="small"
+                        sx={{
+                          backgroundColor: `#${route.route_color}`,
+                          color: route.route_text_color ? `#${route.route_text_color}` : '#000000',
+                        }}
+                      />
+                    ))}
+                  </Stack>
+                </Stack>
+              </Paper>
+            </Grid>
           </Grid>
         </Container>
       </Box>
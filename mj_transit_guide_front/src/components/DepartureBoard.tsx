@@ -0,0 +1,228 @@
+import { useMemo } from 'react'
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Chip,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material'
+import { Schedule, WarningAmber } from '@mui/icons-material'
+import {
+  describeHeadway,
+  describeTripDirection,
+  findAlertsFor,
+  formatTime,
+  getTripDirection,
+  getUpcomingDepartures,
+  type Departure,
+  type RealtimeContext,
+  type Route,
+  type ServiceAlert,
+  type Stop,
+  type StopTime,
+  type Trip,
+} from '../core'
+
+type DepartureBoardProps = {
+  stops: Stop[]
+  trips: Trip[]
+  stopTimesByTrip: Map<string, StopTime[]>
+  routeById: Map<string, Route>
+  nowMinutes: number
+  selectedStopId: string | null
+  onSelectStop: (stopId: string | null) => void
+  serviceNote?: string | null
+  alerts: ServiceAlert[]
+  realtime: RealtimeContext | null
+}
+
+const maxDepartures = 8
+
+const describeStatus = (departure: Departure) => {
+  const headway = describeHeadway(departure.trip)
+  if (headway && departure.trip.frequency) {
+    return `Buses ${headway} until ${formatTime(departure.trip.frequency.windowEnd)}`
+  }
+  const scheduled = `${departure.stopTime.estimated ? 'about ' : ''}${formatTime(
+    departure.stopTime.departure_time
+  )}`
+  if (departure.status === 'canceled') return `${scheduled} - canceled`
+  if (departure.status === 'scheduled') return `${scheduled} - scheduled`
+  const delay = Math.round(departure.delayMinutes)
+  if (delay === 0) return `${scheduled} - live, on time`
+  return delay > 0
+    ? `${scheduled} - live, ${delay} min late`
+    : `${scheduled} - live, ${-delay} min early`
+}
+
+const formatCountdown = (departure: Departure) => {
+  const { frequency } = departure.trip
+  if (frequency && !frequency.exactTimes && departure.minutesUntil <= frequency.headwayMinutes) {
+    return `Every ${Math.round(frequency.headwayMinutes)} min`
+  }
+  const rounded = Math.round(departure.minutesUntil)
+  if (rounded <= 0) return 'Due'
+  if (rounded < 60) return `${rounded} min`
+  return `${Math.floor(rounded / 60)} h ${rounded % 60} min`
+}
+
+function DepartureBoard({
+  stops,
+  trips,
+  stopTimesByTrip,
+  routeById,
+  nowMinutes,
+  selectedStopId,
+  onSelectStop,
+  serviceNote,
+  alerts,
+  realtime,
+}: DepartureBoardProps) {
+  const sortedStops = useMemo(
+    () => [...stops].sort((a, b) => a.stop_name.localeCompare(b.stop_name)),
+    [stops]
+  )
+
+  const stopById = useMemo(() => new Map(stops.map((stop) => [stop.stop_id, stop])), [stops])
+
+  const selectedStop = useMemo(
+    () => stops.find((stop) => stop.stop_id === selectedStopId) ?? null,
+    [selectedStopId, stops]
+  )
+
+  const departures = useMemo(() => {
+    if (!selectedStop) return []
+    return getUpcomingDepartures(
+      selectedStop.stop_id,
+      trips,
+      stopTimesByTrip,
+      routeById,
+      nowMinutes,
+      maxDepartures,
+      realtime
+    )
+  }, [nowMinutes, realtime, routeById, selectedStop, stopTimesByTrip, trips])
+
+  const stopAlerts = useMemo(
+    () => (selectedStop ? findAlertsFor(alerts, { stopIds: [selectedStop.stop_id] }) : []),
+    [alerts, selectedStop]
+  )
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 3, md: 4 },
+        borderRadius: 4,
+        background: 'rgba(255, 255, 255, 0.92)',
+        boxShadow: '0 20px 45px rgba(31, 78, 95, 0.15)',
+      }}
+    >
+      <Stack spacing={2}>
+        <Stack direction="row" alignItems="center" spacing={1.5}>
+          <Schedule color="primary" />
+          <Box>
+            <Typography variant="h5" sx={{ fontWeight: 700 }}>
+              Departure board
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Pick a stop by name or stop number to see the next buses.
+            </Typography>
+          </Box>
+        </Stack>
+        <Autocomplete
+          options={sortedStops}
+          value={selectedStop}
+          onChange={(_, value) => onSelectStop(value?.stop_id ?? null)}
+          getOptionLabel={(stop) => `${stop.stop_name} (#${stop.stop_code})`}
+          isOptionEqualToValue={(option, value) => option.stop_id === value.stop_id}
+          renderInput={(params) => (
+            <TextField {...params} label="Stop" placeholder="e.g. High St W or 1002" />
+          )}
+        />
+        {serviceNote ? <Alert severity="info">{serviceNote}</Alert> : null}
+        {stopAlerts.map((alert) => (
+          <Alert key={alert.id} severity="warning">
+            {alert.header}
+          </Alert>
+        ))}
+        {selectedStop && departures.length === 0 && !serviceNote ? (
+          <Typography variant="body2" color="text.secondary">
+            No more departures from this stop today.
+          </Typography>
+        ) : null}
+        {departures.length > 0 ? (
+          <List dense disablePadding>
+            {departures.map((departure) => {
+              const departureAlerts = findAlertsFor(alerts, {
+                routeIds: [departure.trip.route_id],
+                tripIds: [departure.trip.trip_id],
+              }).filter((alert) => !stopAlerts.includes(alert))
+              const directionLabel = describeTripDirection(
+                getTripDirection(
+                  departure.trip,
+                  stopTimesByTrip.get(departure.trip.trip_id),
+                  stopById
+                )
+              )
+              return (
+                <ListItem
+                  key={`${departure.trip.trip_id}-${departure.stopTime.stop_sequence}`}
+                  disableGutters
+                  secondaryAction={
+                    <Typography
+                      variant="body1"
+                      color={departure.status === 'live' ? 'success.main' : undefined}
+                      sx={{
+                        fontWeight: 700,
+                        textDecoration: departure.status === 'canceled' ? 'line-through' : undefined,
+                      }}
+                    >
+                      {formatCountdown(departure)}
+                    </Typography>
+                  }
+                >
+                  <Chip
+                    label={departure.route?.route_short_name ?? 'Local'}
+                    size="small"
+                    sx={{
+                      mr: 2,
+                      minWidth: 48,
+                      fontWeight: 700,
+                      backgroundColor: departure.route?.route_color
+                        ? `#${departure.route.route_color}`
+                        : undefined,
+                      color: departure.route?.route_text_color
+                        ? `#${departure.route.route_text_color}`
+                        : undefined,
+                    }}
+                  />
+                  <ListItemText
+                    primary={`${
+                      departure.trip.trip_headsign || departure.route?.route_long_name
+                    }${directionLabel ? ` (${directionLabel})` : ''}`}
+                    secondary={describeStatus(departure)}
+                  />
+                  {departureAlerts.length > 0 ? (
+                    <Tooltip title={departureAlerts.map((alert) => alert.header).join(' / ')}>
+                      <WarningAmber color="secondary" sx={{ mr: 10 }} />
+                    </Tooltip>
+                  ) : null}
+                </ListItem>
+              )
+            })}
+          </List>
+        ) : null}
+      </Stack>
+    </Paper>
+  )
+}
+
+export default DepartureBoard
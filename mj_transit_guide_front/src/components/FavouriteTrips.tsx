@@ -0,0 +1,106 @@
+import { useRef, useState, type ChangeEvent } from 'react'
+import { Alert, Button, Chip, Stack, Typography } from '@mui/material'
+import { FileDownload, FileUpload, Star } from '@mui/icons-material'
+import {
+  exportSavedPlaces,
+  mergeSavedPlaces,
+  parseSavedPlacesExport,
+  type FavouriteTrip,
+  type SavedPlaces,
+} from '../places/savedPlaces'
+
+type FavouriteTripsProps = {
+  saved: SavedPlaces
+  onChange: (saved: SavedPlaces) => void
+  onSelect: (trip: FavouriteTrip) => void
+}
+
+function FavouriteTrips({ saved, onChange, onSelect }: FavouriteTripsProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [importNote, setImportNote] = useState<{ error: boolean; message: string } | null>(
+    null
+  )
+  const hasSaved = saved.places.length > 0 || saved.trips.length > 0
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([exportSavedPlaces(saved)], { type: 'application/json' })
+    )
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'moose-jaw-saved-places.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      const imported = parseSavedPlacesExport(await file.text())
+      onChange(mergeSavedPlaces(saved, imported))
+      setImportNote({
+        error: false,
+        message: `Imported ${imported.places.length} place${
+          imported.places.length === 1 ? '' : 's'
+        } and ${imported.trips.length} trip${imported.trips.length === 1 ? '' : 's'}.`,
+      })
+    } catch (error) {
+      setImportNote({
+        error: true,
+        message: error instanceof Error ? error.message : 'Unable to import that file.',
+      })
+    }
+  }
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" alignItems="center">
+        <Typography variant="body2" color="text.secondary">
+          {saved.trips.length > 0
+            ? 'Favourite trips:'
+            : 'Star a planned trip to keep it here.'}
+        </Typography>
+        {saved.trips.map((trip) => (
+          <Chip
+            key={trip.id}
+            icon={<Star />}
+            label={trip.label}
+            color="secondary"
+            variant="outlined"
+            onClick={() => onSelect(trip)}
+            onDelete={() => onChange({ ...saved, trips: saved.trips.filter((item) => item !== trip) })}
+          />
+        ))}
+        <Stack direction="row" spacing={1} sx={{ ml: 'auto' }}>
+          <Button
+            size="small"
+            startIcon={<FileDownload />}
+            onClick={handleExport}
+            disabled={!hasSaved}
+          >
+            Export
+          </Button>
+          <Button size="small" startIcon={<FileUpload />} onClick={() => fileInput.current?.click()}>
+            Import
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={handleImport}
+          />
+        </Stack>
+      </Stack>
+      {importNote ? (
+        <Alert severity={importNote.error ? 'warning' : 'success'} onClose={() => setImportNote(null)}>
+          {importNote.message}
+        </Alert>
+      ) : null}
+    </Stack>
+  )
+}
+
+export default FavouriteTrips
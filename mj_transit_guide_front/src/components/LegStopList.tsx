@@ -0,0 +1,216 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Alert,
+  Button,
+  Collapse,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Stack,
+  Switch,
+  Typography,
+} from '@mui/material'
+import {
+  ExpandLess,
+  ExpandMore,
+  FiberManualRecord,
+  MyLocation,
+  RadioButtonUnchecked,
+  TripOrigin,
+} from '@mui/icons-material'
+import {
+  getLegStops,
+  locateOnLeg,
+  type CandidateTrip,
+  type ShapePoint,
+  type Stop,
+  type StopTime,
+} from '../core'
+
+type LegStopListProps = {
+  leg: CandidateTrip
+  stopTimes: StopTime[]
+  stopById: Map<string, Stop>
+  shape: ShapePoint[] | undefined
+  // Formats a stop time on the leg's service day.
+  formatStopTime: (time: string) => string
+}
+
+type Position = { lat: number; lon: number }
+
+const notify = (title: string, options: NotificationOptions) => {
+  // Chrome for Android throws on the Notification constructor; pages there can only notify
+  // through a service worker registration.
+  const fallback = () => {
+    try {
+      new Notification(title, options)
+    } catch {
+      // The on-screen alert and vibration still fire.
+    }
+  }
+  if (!('serviceWorker' in navigator)) {
+    fallback()
+    return
+  }
+  navigator.serviceWorker
+    .getRegistration()
+    .then((registration) =>
+      registration
+        ? navigator.serviceWorker.ready.then((ready) => ready.showNotification(title, options))
+        : fallback()
+    )
+    .catch(() => undefined)
+}
+
+const alertYourStopIsNext = (stopName: string) => {
+  navigator.vibrate?.([200, 100, 200])
+  if ('Notification' in window && Notification.permission === 'granted') {
+    notify('Your stop is next', { body: `Get off at ${stopName}.` })
+  }
+}
+
+function LegStopList({ leg, stopTimes, stopById, shape, formatStopTime }: LegStopListProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [tracking, setTracking] = useState(false)
+  const [position, setPosition] = useState<Position | null>(null)
+  const [trackingError, setTrackingError] = useState<string | null>(null)
+  const alerted = useRef(false)
+
+  const legStops = useMemo(
+    () => getLegStops(leg, stopTimes, stopById),
+    [leg, stopById, stopTimes]
+  )
+  const progress = useMemo(
+    () => (position ? locateOnLeg(legStops, shape, position.lat, position.lon) : null),
+    [legStops, position, shape]
+  )
+  const lastIndex = legStops.length - 1
+  const stopIsNext = tracking && progress !== null && progress.nextIndex === lastIndex
+
+  useEffect(() => {
+    if (!tracking) return
+    const watchId = navigator.geolocation.watchPosition(
+      (update) => {
+        setTrackingError(null)
+        setPosition({ lat: update.coords.latitude, lon: update.coords.longitude })
+      },
+      () => {
+        setTrackingError('Unable to read your location. Check location permissions.')
+        setTracking(false)
+      },
+      { enableHighAccuracy: true, maximumAge: 10000 }
+    )
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [tracking])
+
+  useEffect(() => {
+    if (!stopIsNext || alerted.current) return
+    alerted.current = true
+    alertYourStopIsNext(leg.alightStop.stop_name)
+  }, [leg.alightStop.stop_name, stopIsNext])
+
+  const handleTracking = (enabled: boolean) => {
+    if (enabled && (!navigator.geolocation || !window.isSecureContext)) {
+      setTrackingError('Live progress needs location access over HTTPS or localhost.')
+      return
+    }
+    if (enabled && 'Notification' in window && Notification.permission === 'default') {
+      void Notification.requestPermission()
+    }
+    alerted.current = false
+    setPosition(null)
+    setTrackingError(null)
+    setTracking(enabled)
+  }
+
+  if (legStops.length < 2) return null
+  const rideStops = legStops.length - 1
+
+  return (
+    <Stack spacing={1}>
+      <Button
+        size="small"
+        color="secondary"
+        startIcon={expanded ? <ExpandLess /> : <ExpandMore />}
+        onClick={() => setExpanded((value) => !value)}
+        sx={{ alignSelf: 'flex-start' }}
+      >
+        {expanded ? 'Hide stops' : `Show all ${rideStops} stop${rideStops === 1 ? '' : 's'}`}
+      </Button>
+      <Collapse in={expanded} unmountOnExit>
+        <Stack spacing={1}>
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={tracking}
+                onChange={(event) => handleTracking(event.target.checked)}
+              />
+            }
+            label="Follow my ride"
+          />
+          {trackingError ? <Alert severity="warning">{trackingError}</Alert> : null}
+          {tracking && position && !progress ? (
+            <Typography variant="body2" color="text.secondary">
+              You don't seem to be on this bus yet.
+            </Typography>
+          ) : null}
+          {stopIsNext ? (
+            <Alert severity="info">Your stop is next: get off at {leg.alightStop.stop_name}.</Alert>
+          ) : null}
+          <List dense disablePadding>
+            {legStops.map(({ stopTime, stop }, index) => {
+              const passed = tracking && progress !== null && index < progress.nextIndex
+              const endpoint = index === 0 || index === lastIndex
+              return (
+                <Fragment key={stopTime.stop_sequence}>
+                  {tracking && progress?.nextIndex === index && index > 0 ? (
+                    <ListItem>
+                      <ListItemIcon sx={{ minWidth: 32 }}>
+                        <MyLocation color="primary" fontSize="small" />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary="You are here"
+                        primaryTypographyProps={{ color: 'primary', fontWeight: 600 }}
+                      />
+                    </ListItem>
+                  ) : null}
+                  <ListItem>
+                    <ListItemIcon sx={{ minWidth: 32 }}>
+                      {endpoint ? (
+                        <TripOrigin color={passed ? 'disabled' : 'primary'} fontSize="small" />
+                      ) : passed ? (
+                        <FiberManualRecord color="disabled" fontSize="small" />
+                      ) : (
+                        <RadioButtonUnchecked color="action" fontSize="small" />
+                      )}
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={stop.stop_name}
+                      secondary={`${stopTime.estimated ? 'about ' : ''}${formatStopTime(
+                        index === 0 ? stopTime.departure_time : stopTime.arrival_time
+                      )}`}
+                      primaryTypographyProps={{
+                        fontWeight: endpoint ? 600 : 400,
+                        color: passed ? 'text.disabled' : 'text.primary',
+                      }}
+                    />
+                  </ListItem>
+                </Fragment>
+              )
+            })}
+          </List>
+          {leg.realtime?.status === 'live' ? (
+            <Typography variant="caption" color="text.secondary">
+              Times between your stops are scheduled; the bus may be running early or late.
+            </Typography>
+          ) : null}
+        </Stack>
+      </Collapse>
+    </Stack>
+  )
+}
+
+export default LegStopList
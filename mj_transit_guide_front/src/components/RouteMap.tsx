@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react'
+import { Box } from '@mui/material'
+import type { MapRenderer, MapRendererFactory, MapScene } from '../map/mapLayer'
+
+type RouteMapProps = {
+  scene: MapScene
+  rendererFactory: MapRendererFactory
+  height?: number | { xs: number; md: number }
+}
+
+function RouteMap({ scene, rendererFactory, height = { xs: 320, md: 460 } }: RouteMapProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const rendererRef = useRef<MapRenderer | null>(null)
+
+  useEffect(() => {
+    if (!containerRef.current) return
+    const renderer = rendererFactory(containerRef.current)
+    rendererRef.current = renderer
+    return () => {
+      renderer.destroy()
+      rendererRef.current = null
+    }
+  }, [rendererFactory])
+
+  useEffect(() => {
+    rendererRef.current?.render(scene)
+  }, [rendererFactory, scene])
+
+  return (
+    <Box
+      ref={containerRef}
+      sx={{
+        height,
+        width: '100%',
+        borderRadius: 3,
+        overflow: 'hidden',
+        backgroundColor: '#eef2f1',
+        border: '1px solid rgba(31, 78, 95, 0.12)',
+      }}
+    />
+  )
+}
+
+export default RouteMap
@@ -0,0 +1,220 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  FormControlLabel,
+  Paper,
+  Stack,
+  Switch,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tabs,
+  Typography,
+} from '@mui/material'
+import { TableChart } from '@mui/icons-material'
+import {
+  buildRouteTimetable,
+  describeHeadway,
+  describeTripDirection,
+  findCurrentTripIndex,
+  formatTime,
+  getTripDirection,
+  timeToMinutes,
+  type Route,
+  type Stop,
+  type StopTime,
+  type Trip,
+} from '../core'
+
+type RouteTimetableProps = {
+  routes: Route[]
+  trips: Trip[]
+  stopTimesByTrip: Map<string, StopTime[]>
+  stopById: Map<string, Stop>
+  nowMinutes: number | null
+  serviceDateLabel: string | null
+}
+
+const highlightColor = 'rgba(243, 156, 107, 0.22)'
+
+function RouteTimetable({
+  routes,
+  trips,
+  stopTimesByTrip,
+  stopById,
+  nowMinutes,
+  serviceDateLabel,
+}: RouteTimetableProps) {
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null)
+  const [showAllStops, setShowAllStops] = useState(false)
+  const routeId = selectedRouteId ?? routes[0]?.route_id ?? null
+  const route = routes.find((item) => item.route_id === routeId)
+
+  const patterns = useMemo(() => {
+    if (!routeId) return []
+    return buildRouteTimetable(routeId, trips, stopTimesByTrip, stopById)
+  }, [routeId, stopById, stopTimesByTrip, trips])
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: { xs: 3, md: 4 },
+        borderRadius: 4,
+        background: 'rgba(255, 255, 255, 0.92)',
+        boxShadow: '0 20px 45px rgba(31, 78, 95, 0.15)',
+      }}
+    >
+      <Stack spacing={2}>
+        <Stack
+          direction={{ xs: 'column', sm: 'row' }}
+          alignItems={{ xs: 'flex-start', sm: 'center' }}
+          spacing={1.5}
+        >
+          <TableChart color="primary" />
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="h5" sx={{ fontWeight: 700 }}>
+              Route timetables
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {serviceDateLabel
+                ? `Scheduled trips for ${serviceDateLabel}.`
+                : 'No upcoming service days are published in the schedule.'}
+            </Typography>
+          </Box>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showAllStops}
+                onChange={(event) => setShowAllStops(event.target.checked)}
+              />
+            }
+            label="All stops"
+          />
+        </Stack>
+        <Tabs
+          value={routeId ?? false}
+          onChange={(_, value: string) => setSelectedRouteId(value)}
+          variant="scrollable"
+          scrollButtons="auto"
+        >
+          {routes.map((item) => (
+            <Tab
+              key={item.route_id}
+              value={item.route_id}
+              label={`Route ${item.route_short_name}`}
+              sx={{ borderBottom: `3px solid #${item.route_color}` }}
+            />
+          ))}
+        </Tabs>
+        {route && patterns.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Route {route.route_short_name} has no trips on this service day.
+          </Typography>
+        ) : null}
+        {patterns.map((pattern) => {
+          const currentIndex = nowMinutes === null ? -1 : findCurrentTripIndex(pattern, nowMinutes)
+          const firstTime = pattern.times[currentIndex]?.find((time) => time !== null)
+          const currentLabel =
+            firstTime && nowMinutes !== null && timeToMinutes(firstTime) <= nowMinutes
+              ? 'Now'
+              : 'Next'
+          const visibleRows = pattern.rows
+            .map((row, index) => ({ row, index }))
+            .filter(({ row }) => showAllStops || row.timepoint)
+          const directionLabel = describeTripDirection(
+            getTripDirection(
+              pattern.trips[0],
+              stopTimesByTrip.get(pattern.trips[0].trip_id),
+              stopById
+            )
+          )
+          return (
+            <Stack key={pattern.key} spacing={1}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+                {route?.route_long_name} - toward {pattern.headsign}
+                {directionLabel ? ` (${directionLabel})` : ''}
+              </Typography>
+              <TableContainer sx={{ maxHeight: 520 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 700, minWidth: 200 }}>Stop</TableCell>
+                      {pattern.trips.map((trip, tripIndex) => (
+                        <TableCell
+                          key={trip.trip_id}
+                          align="center"
+                          sx={{
+                            fontWeight: 700,
+                            backgroundColor:
+                              tripIndex === currentIndex ? highlightColor : undefined,
+                          }}
+                        >
+                          {tripIndex === currentIndex ? currentLabel : tripIndex + 1}
+                          {describeHeadway(trip) ? (
+                            <Typography variant="caption" display="block">
+                              {describeHeadway(trip)}
+                            </Typography>
+                          ) : null}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {visibleRows.map(({ row, index }) => (
+                      <TableRow key={`${row.stop.stop_id}-${index}`}>
+                        <TableCell sx={{ fontWeight: row.timepoint ? 600 : 400 }}>
+                          {row.stop.stop_name}
+                        </TableCell>
+                        {pattern.times.map((tripTimes, tripIndex) => (
+                          <TableCell
+                            key={pattern.trips[tripIndex].trip_id}
+                            align="center"
+                            sx={{
+                              whiteSpace: 'nowrap',
+                              color: row.timepoint ? 'text.primary' : 'text.secondary',
+                              backgroundColor:
+                                tripIndex === currentIndex ? highlightColor : undefined,
+                            }}
+                          >
+                            {tripTimes[index]
+                              ? `${pattern.estimated[tripIndex][index] ? '~' : ''}${formatTime(
+                                  tripTimes[index]
+                                )}`
+                              : '-'}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              {visibleRows.some(({ index }) =>
+                pattern.estimated.some((tripEstimates) => tripEstimates[index])
+              ) ? (
+                <Typography variant="caption" color="text.secondary">
+                  Times marked ~ are estimated from the distance between timed stops.
+                </Typography>
+              ) : null}
+              {pattern.trips.map((trip, tripIndex) =>
+                trip.frequency && describeHeadway(trip) ? (
+                  <Typography key={trip.trip_id} variant="caption" color="text.secondary">
+                    Column {tripIndex + 1}: buses run {describeHeadway(trip)} from{' '}
+                    {formatTime(trip.frequency.windowStart)} until{' '}
+                    {formatTime(trip.frequency.windowEnd)}. Times shown are for the first bus.
+                  </Typography>
+                ) : null
+              )}
+            </Stack>
+          )
+        })}
+      </Stack>
+    </Paper>
+  )
+}
+
+export default RouteTimetable
@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import {
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+} from '@mui/material'
+import { Bookmark, BookmarkAdd, Home, Work } from '@mui/icons-material'
+import { presetPlaceLabels, type SavedPlace } from '../places/savedPlaces'
+
+type SavedPlaceChipsProps = {
+  places: SavedPlace[]
+  // The address in the field, offered for saving; null when nothing is selected.
+  currentAddress: string | null
+  onSelect: (place: SavedPlace) => void
+  onSave: (label: string) => void
+  onRemove: (id: string) => void
+}
+
+const placeIcon = (label: string) => {
+  if (label.toLowerCase() === 'home') return <Home />
+  if (label.toLowerCase() === 'work') return <Work />
+  return <Bookmark />
+}
+
+function SavedPlaceChips({
+  places,
+  currentAddress,
+  onSelect,
+  onSave,
+  onRemove,
+}: SavedPlaceChipsProps) {
+  const [saveOpen, setSaveOpen] = useState(false)
+  const [label, setLabel] = useState('')
+
+  const openSave = () => {
+    const missingPreset = presetPlaceLabels.find(
+      (preset) => !places.some((place) => place.label.toLowerCase() === preset.toLowerCase())
+    )
+    setLabel(missingPreset ?? '')
+    setSaveOpen(true)
+  }
+
+  const handleSave = () => {
+    if (!label.trim()) return
+    onSave(label.trim())
+    setSaveOpen(false)
+  }
+
+  if (places.length === 0 && !currentAddress) return null
+
+  return (
+    <>
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mb: 1 }}>
+        {places.map((place) => (
+          <Chip
+            key={place.id}
+            icon={placeIcon(place.label)}
+            label={place.label}
+            variant="outlined"
+            color="primary"
+            onClick={() => onSelect(place)}
+            onDelete={() => onRemove(place.id)}
+          />
+        ))}
+        {currentAddress ? (
+          <Chip
+            icon={<BookmarkAdd />}
+            label="Save place"
+            variant="outlined"
+            onClick={openSave}
+          />
+        ) : null}
+      </Stack>
+      <Dialog open={saveOpen} onClose={() => setSaveOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Save {currentAddress}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ pt: 1 }}>
+            <Stack direction="row" spacing={1}>
+              {presetPlaceLabels.map((preset) => (
+                <Chip
+                  key={preset}
+                  icon={placeIcon(preset)}
+                  label={preset}
+                  color={label === preset ? 'primary' : 'default'}
+                  onClick={() => setLabel(preset)}
+                />
+              ))}
+            </Stack>
+            <TextField
+              autoFocus
+              fullWidth
+              size="small"
+              label="Label"
+              placeholder="School, Gym, Grandma's"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') handleSave()
+              }}
+              helperText="Saving with an existing label replaces that place."
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!label.trim()}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  )
+}
+
+export default SavedPlaceChips
@@ -0,0 +1,137 @@
+import {
+  Alert,
+  Box,
+  Chip,
+  Divider,
+  Drawer,
+  IconButton,
+  Link,
+  Stack,
+  Typography,
+} from '@mui/material'
+import { Close, WarningAmber } from '@mui/icons-material'
+import { formatAlertEffect, type Route, type ServiceAlert, type Stop } from '../core'
+
+type ServiceAlertsDrawerProps = {
+  open: boolean
+  onClose: () => void
+  alerts: ServiceAlert[]
+  routeById: Map<string, Route>
+  stopById: Map<string, Stop>
+  timeZone: string
+  error: string | null
+}
+
+const formatPeriodTime = (epochSeconds: number, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(epochSeconds * 1000))
+
+const describePeriods = (alert: ServiceAlert, timeZone: string) => {
+  if (alert.activePeriods.length === 0) return 'Until further notice'
+  return alert.activePeriods
+    .map((period) => {
+      if (period.start !== null && period.end !== null) {
+        return `${formatPeriodTime(period.start, timeZone)} - ${formatPeriodTime(period.end, timeZone)}`
+      }
+      if (period.start !== null) return `From ${formatPeriodTime(period.start, timeZone)}`
+      if (period.end !== null) return `Until ${formatPeriodTime(period.end, timeZone)}`
+      return 'Until further notice'
+    })
+    .join(', ')
+}
+
+function ServiceAlertsDrawer({
+  open,
+  onClose,
+  alerts,
+  routeById,
+  stopById,
+  timeZone,
+  error,
+}: ServiceAlertsDrawerProps) {
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: { xs: '100vw', sm: 420 }, p: 3 }}>
+        <Stack direction="row" alignItems="center" spacing={1.5} sx={{ mb: 2 }}>
+          <WarningAmber color="secondary" />
+          <Typography variant="h5" sx={{ fontWeight: 700, flexGrow: 1 }}>
+            Service alerts
+          </Typography>
+          <IconButton onClick={onClose} aria-label="Close service alerts">
+            <Close />
+          </IconButton>
+        </Stack>
+        {error ? <Alert severity="warning">{error}</Alert> : null}
+        {!error && alerts.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No active service alerts. Buses are running as scheduled.
+          </Typography>
+        ) : null}
+        <Stack spacing={2} divider={<Divider flexItem />}>
+          {alerts.map((alert) => {
+            const routeIds = [
+              ...new Set(alert.targets.flatMap((target) => (target.routeId ? [target.routeId] : []))),
+            ]
+            const stopIds = [
+              ...new Set(alert.targets.flatMap((target) => (target.stopId ? [target.stopId] : []))),
+            ]
+            return (
+              <Stack key={alert.id} spacing={1}>
+                <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                  <Chip label={formatAlertEffect(alert.effect)} color="secondary" size="small" />
+                  {routeIds.map((routeId) => {
+                    const route = routeById.get(routeId)
+                    return (
+                      <Chip
+                        key={routeId}
+                        label={`Route ${route?.route_short_name ?? routeId}`}
+                        size="small"
+                        sx={{
+                          fontWeight: 700,
+                          backgroundColor: route?.route_color ? `#${route.route_color}` : undefined,
+                          color: route?.route_text_color ? `#${route.route_text_color}` : undefined,
+                        }}
+                      />
+                    )
+                  })}
+                </Stack>
+                <Typography variant="subtitle1" sx={{ fontWeight: 700 }}>
+                  {alert.header}
+                </Typography>
+                {alert.description ? (
+                  <Typography variant="body2">{alert.description}</Typography>
+                ) : null}
+                {stopIds.length > 0 ? (
+                  <Typography variant="body2" color="text.secondary">
+                    Stops:{' '}
+                    {stopIds
+                      .map((stopId) => {
+                        const stop = stopById.get(stopId)
+                        return stop ? `${stop.stop_name} (#${stop.stop_code})` : stopId
+                      })
+                      .join(', ')}
+                  </Typography>
+                ) : null}
+                <Typography variant="caption" color="text.secondary">
+                  {describePeriods(alert, timeZone)}
+                </Typography>
+                {alert.url ? (
+                  <Link href={alert.url} target="_blank" rel="noreferrer" variant="body2">
+                    More details
+                  </Link>
+                ) : null}
+              </Stack>
+            )
+          })}
+        </Stack>
+      </Box>
+    </Drawer>
+  )
+}
+
+export default ServiceAlertsDrawer
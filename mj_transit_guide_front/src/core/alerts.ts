@@ -0,0 +1,57 @@
+export type AlertTarget = {
+  routeId?: string
+  stopId?: string
+  tripId?: string
+}
+
+export type AlertPeriod = {
+  start: number | null
+  end: number | null
+}
+
+export type ServiceAlert = {
+  id: string
+  header: string
+  description: string | null
+  url: string | null
+  cause: string | null
+  effect: string | null
+  // Epoch seconds; an empty list means the alert is always active.
+  activePeriods: AlertPeriod[]
+  // An alert applies when any one target matches; every field set on a target must match.
+  targets: AlertTarget[]
+}
+
+export type AlertContext = {
+  routeIds?: string[]
+  stopIds?: string[]
+  tripIds?: string[]
+}
+
+export const isAlertActive = (alert: ServiceAlert, epochSeconds: number) =>
+  alert.activePeriods.length === 0 ||
+  alert.activePeriods.some(
+    (period) =>
+      (period.start === null || period.start <= epochSeconds) &&
+      (period.end === null || epochSeconds <= period.end)
+  )
+
+export const isAlertUpcoming = (alert: ServiceAlert, epochSeconds: number) =>
+  alert.activePeriods.length === 0 ||
+  alert.activePeriods.some((period) => period.end === null || epochSeconds <= period.end)
+
+const targetMatches = (target: AlertTarget, context: AlertContext) => {
+  if (!target.routeId && !target.stopId && !target.tripId) return true
+  if (target.routeId && !context.routeIds?.includes(target.routeId)) return false
+  if (target.stopId && !context.stopIds?.includes(target.stopId)) return false
+  if (target.tripId && !context.tripIds?.includes(target.tripId)) return false
+  return true
+}
+
+export const findAlertsFor = (alerts: ServiceAlert[], context: AlertContext) =>
+  alerts.filter((alert) => alert.targets.some((target) => targetMatches(target, context)))
+
+export const formatAlertEffect = (effect: string | null) =>
+  effect
+    ? effect.charAt(0) + effect.slice(1).toLowerCase().replaceAll('_', ' ')
+    : 'Service alert'
@@ -0,0 +1,185 @@
+import { formatTime, minutesToClockTime } from './time'
+
+export type ServiceCalendar = {
+  service_id: string
+  // Indexed by Date#getUTCDay(): 0 = Sunday ... 6 = Saturday.
+  days: boolean[]
+  start_date: string
+  end_date: string
+}
+
+export type ServiceException = {
+  service_id: string
+  date: string
+  exception_type: 1 | 2
+}
+
+const weekdayColumns = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const
+
+const maxLookaheadDays = 366
+
+export const parseCalendarRow = (row: Record<string, string>): ServiceCalendar => ({
+  service_id: row.service_id,
+  days: weekdayColumns.map((column) => row[column] === '1'),
+  start_date: row.start_date,
+  end_date: row.end_date,
+})
+
+export const parseCalendarDateRow = (row: Record<string, string>): ServiceException => ({
+  service_id: row.service_id,
+  date: row.date,
+  exception_type: row.exception_type === '1' ? 1 : 2,
+})
+
+const serviceDateToUtc = (serviceDate: string) =>
+  new Date(
+    Date.UTC(
+      Number(serviceDate.slice(0, 4)),
+      Number(serviceDate.slice(4, 6)) - 1,
+      Number(serviceDate.slice(6, 8))
+    )
+  )
+
+const utcToServiceDate = (date: Date) =>
+  `${date.getUTCFullYear()}${String(date.getUTCMonth() + 1).padStart(2, '0')}${String(
+    date.getUTCDate()
+  ).padStart(2, '0')}`
+
+export const getServiceDate = (now: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now)
+  const part = (type: string) => parts.find((item) => item.type === type)?.value ?? ''
+  return `${part('year')}${part('month')}${part('day')}`
+}
+
+export const getServiceMinutes = (now: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(now)
+  const part = (type: string) => Number(parts.find((item) => item.type === type)?.value ?? 0)
+  return part('hour') * 60 + part('minute')
+}
+
+export const addServiceDays = (serviceDate: string, days: number) => {
+  const date = serviceDateToUtc(serviceDate)
+  date.setUTCDate(date.getUTCDate() + days)
+  return utcToServiceDate(date)
+}
+
+export const serviceDateToIsoDate = (serviceDate: string) =>
+  `${serviceDate.slice(0, 4)}-${serviceDate.slice(4, 6)}-${serviceDate.slice(6, 8)}`
+
+export const isoDateToServiceDate = (isoDate: string) => isoDate.replaceAll('-', '')
+
+export const formatServiceDate = (serviceDate: string) =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'UTC',
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  }).format(serviceDateToUtc(serviceDate))
+
+const daysBetweenServiceDates = (from: string, to: string) =>
+  Math.round((serviceDateToUtc(to).getTime() - serviceDateToUtc(from).getTime()) / 86400000)
+
+// Labels a time on a service day relative to today: "7:15 AM", "Tomorrow 7:15 AM", the weekday
+// within the coming week, and the full date beyond that. Times past 24:00 fall on the next day.
+export const formatServiceInstant = (
+  serviceDate: string,
+  minutes: number,
+  todayServiceDate: string
+) => {
+  const date = addServiceDays(serviceDate, Math.floor(minutes / 1440))
+  const time = formatTime(minutesToClockTime(minutes))
+  const days = daysBetweenServiceDates(todayServiceDate, date)
+  if (days === 0) return time
+  if (days === 1) return `Tomorrow ${time}`
+  if (days > 1 && days < 7) {
+    const weekday = new Intl.DateTimeFormat('en-CA', { timeZone: 'UTC', weekday: 'long' })
+    return `${weekday.format(serviceDateToUtc(date))} ${time}`
+  }
+  return `${formatServiceDate(date)}, ${time}`
+}
+
+export const getActiveServiceIds = (
+  calendars: ServiceCalendar[],
+  exceptions: ServiceException[],
+  serviceDate: string
+) => {
+  const weekday = serviceDateToUtc(serviceDate).getUTCDay()
+  const active = new Set<string>()
+  calendars.forEach((calendar) => {
+    if (serviceDate < calendar.start_date || serviceDate > calendar.end_date) return
+    if (calendar.days[weekday]) active.add(calendar.service_id)
+  })
+  exceptions.forEach((exception) => {
+    if (exception.date !== serviceDate) return
+    if (exception.exception_type === 1) {
+      active.add(exception.service_id)
+    } else {
+      active.delete(exception.service_id)
+    }
+  })
+  return active
+}
+
+export const findNextServiceDate = (
+  calendars: ServiceCalendar[],
+  exceptions: ServiceException[],
+  fromServiceDate: string
+) => {
+  for (let offset = 1; offset <= maxLookaheadDays; offset += 1) {
+    const candidate = addServiceDays(fromServiceDate, offset)
+    if (getActiveServiceIds(calendars, exceptions, candidate).size > 0) {
+      return candidate
+    }
+  }
+  return null
+}
+
+const timeZoneOffsetMinutes = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(instant)
+  const part = (type: string) => Number(parts.find((item) => item.type === type)?.value ?? 0)
+  const localAsUtc = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute')
+  )
+  return Math.round((localAsUtc - instant.getTime()) / 60000)
+}
+
+// GTFS times count from noon minus 12 hours, which keeps them stable across DST changes.
+export const serviceTimeToEpochSeconds = (
+  serviceDate: string,
+  minutes: number,
+  timeZone: string
+) => {
+  const noonUtc = serviceDateToUtc(serviceDate).getTime() + 12 * 3600000
+  const noonLocal = noonUtc - timeZoneOffsetMinutes(new Date(noonUtc), timeZone) * 60000
+  return Math.round((noonLocal - 12 * 3600000 + minutes * 60000) / 1000)
+}
@@ -0,0 +1,101 @@
+// RFC 4180 tokenizer: quoted fields may hold commas, line breaks and doubled quotes. A leading
+// UTF-8 byte order mark is dropped and CRLF, LF and CR line endings are all accepted.
+
+export type CsvRecord = {
+  // 1-based line on which the record starts.
+  line: number
+  fields: string[]
+}
+
+export type CsvProblem = {
+  line: number
+  message: string
+}
+
+export type CsvRow = {
+  line: number
+  values: Record<string, string>
+  fieldCount: number
+}
+
+export type CsvTable = {
+  headers: string[]
+  rows: CsvRow[]
+  problems: CsvProblem[]
+}
+
+export const tokenizeCsv = (text: string) => {
+  const records: CsvRecord[] = []
+  const problems: CsvProblem[] = []
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let fieldStart = true
+  let line = 1
+  let recordLine = 1
+
+  const endField = () => {
+    fields.push(field)
+    field = ''
+    fieldStart = true
+  }
+  const endRecord = () => {
+    endField()
+    if (fields.length > 1 || fields[0] !== '') records.push({ line: recordLine, fields })
+    fields = []
+  }
+
+  for (let index = text.charCodeAt(0) === 0xfeff ? 1 : 0; index < text.length; index += 1) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n' || (char === '\r' && text[index + 1] !== '\n')) line += 1
+        field += char
+      }
+      continue
+    }
+    if (char === '"' && fieldStart) {
+      quoted = true
+      fieldStart = false
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1
+      endRecord()
+      line += 1
+      recordLine = line
+    } else {
+      if (char === '"') {
+        problems.push({ line, message: 'Unexpected quote inside an unquoted field.' })
+      }
+      field += char
+      fieldStart = false
+    }
+  }
+  if (quoted) problems.push({ line: recordLine, message: 'A quoted field is never closed.' })
+  if (field !== '' || fields.length > 0 || quoted) endRecord()
+  return { records, problems }
+}
+
+export const parseCsvTable = (text: string): CsvTable => {
+  const { records, problems } = tokenizeCsv(text)
+  const [header, ...body] = records
+  if (!header) return { headers: [], rows: [], problems }
+  const headers = header.fields.map((name) => name.trim())
+  return {
+    headers,
+    rows: body.map((record) => ({
+      line: record.line,
+      fieldCount: record.fields.length,
+      values: Object.fromEntries(
+        headers.map((name, index) => [name, record.fields[index]?.trim() ?? ''])
+      ),
+    })),
+    problems,
+  }
+}
@@ -0,0 +1,62 @@
+import { findTripRealtime, getStopDelaySeconds, type RealtimeContext } from './realtime'
+import { timeToMinutes } from './time'
+import type { Route, StopTime, Trip } from './types'
+
+export type Departure = {
+  trip: Trip
+  route: Route | undefined
+  stopTime: StopTime
+  departureMinutes: number
+  minutesUntil: number
+  status: 'live' | 'scheduled' | 'canceled'
+  delayMinutes: number
+}
+
+export const getUpcomingDepartures = (
+  stopId: string,
+  trips: Trip[],
+  stopTimesByTrip: Map<string, StopTime[]>,
+  routeById: Map<string, Route>,
+  nowMinutes: number,
+  limit: number,
+  realtime: RealtimeContext | null = null
+) => {
+  const departures: Departure[] = []
+  trips.forEach((trip) => {
+    const stopTimes = stopTimesByTrip.get(trip.trip_id)
+    if (!stopTimes) return
+    const tripRealtime = realtime ? findTripRealtime(realtime, trip.trip_id) : null
+    stopTimes.forEach((stopTime, index) => {
+      if (stopTime.stop_id !== stopId) return
+      if (index === stopTimes.length - 1) return
+      const delaySeconds =
+        realtime && tripRealtime
+          ? getStopDelaySeconds(realtime, tripRealtime, stopTime.stop_sequence, 'departure')
+          : null
+      const delayMinutes = (delaySeconds ?? 0) / 60
+      const departureMinutes = timeToMinutes(stopTime.departure_time) + delayMinutes
+      if (departureMinutes < nowMinutes) return
+      departures.push({
+        trip,
+        route: routeById.get(trip.route_id),
+        stopTime,
+        departureMinutes,
+        minutesUntil: departureMinutes - nowMinutes,
+        status: tripRealtime ? (tripRealtime.canceled ? 'canceled' : 'live') : 'scheduled',
+        delayMinutes,
+      })
+    })
+  })
+  // A headway window is listed once, at its next bus, rather than once per approximate trip.
+  const seenWindows = new Set<string>()
+  return departures
+    .sort((a, b) => a.departureMinutes - b.departureMinutes)
+    .filter(({ trip }) => {
+      if (!trip.frequency || trip.frequency.exactTimes) return true
+      const key = `${trip.frequency.baseTripId}@${trip.frequency.windowStart}`
+      if (seenWindows.has(key)) return false
+      seenWindows.add(key)
+      return true
+    })
+    .slice(0, limit)
+}
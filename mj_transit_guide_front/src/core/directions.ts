@@ -0,0 +1,51 @@
+import { haversineDistanceKm } from './geometry'
+import type { Stop, StopTime, Trip } from './types'
+
+// A trip whose last stop is this close to its first is treated as a loop.
+const loopClosureKm = 0.4
+
+export type TripDirection =
+  | { kind: 'loop'; rotation: 'clockwise' | 'counterclockwise' }
+  | { kind: 'outbound' }
+  | { kind: 'inbound' }
+
+// Twice the signed area enclosed by the stops; positive when they run counterclockwise.
+const signedArea = (stops: Stop[]) => {
+  const cosLat = Math.cos((stops[0].stop_lat * Math.PI) / 180)
+  return stops.reduce((sum, stop, index) => {
+    const next = stops[(index + 1) % stops.length]
+    return sum + stop.stop_lon * cosLat * next.stop_lat - next.stop_lon * cosLat * stop.stop_lat
+  }, 0)
+}
+
+// Loops are recognised from the stops themselves, since feeds such as Moose Jaw's mark every
+// trip direction 0. Otherwise direction_id 0 reads as outbound and 1 as inbound.
+export const getTripDirection = (
+  trip: Trip,
+  stopTimes: StopTime[] | undefined,
+  stopById: Map<string, Stop>
+): TripDirection | null => {
+  const stops = (stopTimes ?? []).flatMap((stopTime) => {
+    const stop = stopById.get(stopTime.stop_id)
+    return stop ? [stop] : []
+  })
+  const first = stops[0]
+  const last = stops[stops.length - 1]
+  if (
+    stops.length >= 3 &&
+    haversineDistanceKm(first, last.stop_lat, last.stop_lon) <= loopClosureKm
+  ) {
+    return { kind: 'loop', rotation: signedArea(stops) > 0 ? 'counterclockwise' : 'clockwise' }
+  }
+  if (trip.direction_id === 0) return { kind: 'outbound' }
+  if (trip.direction_id === 1) return { kind: 'inbound' }
+  return null
+}
+
+export const describeTripDirection = (direction: TripDirection | null) => {
+  if (!direction) return null
+  if (direction.kind === 'loop') {
+    return direction.rotation === 'clockwise' ? 'Clockwise loop' : 'Counterclockwise loop'
+  }
+  return direction.kind === 'outbound' ? 'Outbound' : 'Inbound'
+}
@@ -0,0 +1,432 @@
+import {
+  addServiceDays,
+  getActiveServiceIds,
+  parseCalendarDateRow,
+  parseCalendarRow,
+} from './calendar'
+import { parseCsvTable, type CsvRow } from './csv'
+import { haversineDistanceKm } from './geometry'
+import { groupShapes, parseFeedVersion } from './gtfsFeed'
+import {
+  validateGtfsFiles,
+  type GtfsFiles,
+  type GtfsIssue,
+  type GtfsIssueCheck,
+} from './gtfsSchema'
+import { maxStopOffsetKm, projectOntoShape } from './shapes'
+import { timeToMinutes } from './time'
+import type { Stop } from './types'
+
+export type FeedReport = {
+  generatedAt: string
+  feedVersion: string | null
+  counts: { errors: number; warnings: number }
+  rowCounts: Record<string, number>
+  issues: GtfsIssue[]
+}
+
+const maxBusSpeedKmh = 100
+const maxInstantHopKm = 1
+const maxDistanceFromNetworkKm = 50
+const minServiceGapDays = 7
+const minHolidayCheckDays = 90
+const maxCoverageDays = 3 * 366
+
+const checkLabels: Record<GtfsIssueCheck, string> = {
+  file: 'Missing files',
+  format: 'CSV format',
+  required: 'Required fields',
+  type: 'Field types',
+  reference: 'Referential integrity',
+  duplicate: 'Duplicate keys',
+  'route-name': 'Route names',
+  'empty-file': 'Empty files',
+  'stop-time-order': 'Stop time order',
+  'orphan-route': 'Routes without trips',
+  'orphan-stop': 'Stops without trips',
+  'calendar-coverage': 'Calendar coverage',
+  coordinates: 'Coordinates',
+  speed: 'Speed outliers',
+  'stop-off-shape': 'Stops off their shape',
+}
+
+const toStop = (row: CsvRow): Stop => ({
+  stop_id: row.values.stop_id,
+  stop_code: row.values.stop_code ?? '',
+  stop_name: row.values.stop_name,
+  stop_lat: Number(row.values.stop_lat),
+  stop_lon: Number(row.values.stop_lon),
+  wheelchair_boarding: 0,
+})
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+const eventMinutes = (row: CsvRow, first: 'arrival_time' | 'departure_time') => {
+  const second = first === 'arrival_time' ? 'departure_time' : 'arrival_time'
+  const value = row.values[first] || row.values[second]
+  return value ? timeToMinutes(value) : null
+}
+
+const checkStopTimes = (
+  stopTimes: CsvRow[],
+  stopById: Map<string, Stop>,
+  issues: GtfsIssue[]
+) => {
+  const byTrip = new Map<string, CsvRow[]>()
+  stopTimes.forEach((row) => {
+    const list = byTrip.get(row.values.trip_id) ?? []
+    list.push(row)
+    byTrip.set(row.values.trip_id, list)
+  })
+
+  byTrip.forEach((rows, tripId) => {
+    rows.sort((a, b) => Number(a.values.stop_sequence) - Number(b.values.stop_sequence))
+    ;[rows[0], rows[rows.length - 1]].forEach((row) => {
+      if (!row.values.arrival_time && !row.values.departure_time) {
+        issues.push({
+          severity: 'error',
+          check: 'stop-time-order',
+          file: 'stop_times.txt',
+          line: row.line,
+          message: `Trip ${tripId} needs times at its first and last stop.`,
+        })
+      }
+    })
+
+    let previous: { row: CsvRow; minutes: number } | null = null
+    rows.forEach((row) => {
+      const arrival = eventMinutes(row, 'arrival_time')
+      const departure = eventMinutes(row, 'departure_time')
+      if (arrival !== null && departure !== null && departure < arrival) {
+        issues.push({
+          severity: 'error',
+          check: 'stop-time-order',
+          file: 'stop_times.txt',
+          line: row.line,
+          message: `Trip ${tripId} departs stop ${row.values.stop_id} before it arrives.`,
+        })
+      }
+      if (arrival === null || departure === null) return
+      if (previous) {
+        const elapsed = arrival - previous.minutes
+        if (elapsed < 0) {
+          issues.push({
+            severity: 'error',
+            check: 'stop-time-order',
+            file: 'stop_times.txt',
+            line: row.line,
+            message: `Trip ${tripId} reaches stop ${row.values.stop_id} at ${
+              row.values.arrival_time || row.values.departure_time
+            }, before it left the previous stop.`,
+          })
+        }
+        const from = stopById.get(previous.row.values.stop_id)
+        const to = stopById.get(row.values.stop_id)
+        const distanceKm = from && to ? haversineDistanceKm(from, to.stop_lat, to.stop_lon) : 0
+        const speedKmh = elapsed > 0 ? distanceKm / (elapsed / 60) : 0
+        if (
+          (elapsed > 0 && speedKmh > maxBusSpeedKmh) ||
+          (elapsed === 0 && distanceKm > maxInstantHopKm)
+        ) {
+          issues.push({
+            severity: 'warning',
+            check: 'speed',
+            file: 'stop_times.txt',
+            line: row.line,
+            message:
+              elapsed > 0
+                ? `Trip ${tripId} averages ${Math.round(speedKmh)} km/h between stops ${
+                    previous.row.values.stop_id
+                  } and ${row.values.stop_id}.`
+                : `Trip ${tripId} covers ${distanceKm.toFixed(1)} km between stops ${
+                    previous.row.values.stop_id
+                  } and ${row.values.stop_id} in no time.`,
+          })
+        }
+      }
+      previous = { row, minutes: departure }
+    })
+  })
+}
+
+const checkOrphans = (tables: Map<string, CsvRow[]>, issues: GtfsIssue[]) => {
+  const trips = tables.get('trips.txt') ?? []
+  const routesWithTrips = new Set(trips.map((row) => row.values.route_id))
+  ;(tables.get('routes.txt') ?? []).forEach((row) => {
+    if (routesWithTrips.has(row.values.route_id)) return
+    issues.push({
+      severity: 'warning',
+      check: 'orphan-route',
+      file: 'routes.txt',
+      line: row.line,
+      message: `Route ${row.values.route_short_name || row.values.route_id} (${
+        row.values.route_id
+      }) has no trips.`,
+    })
+  })
+
+  const servedStops = new Set((tables.get('stop_times.txt') ?? []).map((row) => row.values.stop_id))
+  ;(tables.get('stops.txt') ?? []).forEach((row) => {
+    const locationType = row.values.location_type ?? ''
+    if (servedStops.has(row.values.stop_id) || (locationType !== '' && locationType !== '0')) {
+      return
+    }
+    issues.push({
+      severity: 'warning',
+      check: 'orphan-stop',
+      file: 'stops.txt',
+      line: row.line,
+      message: `Stop ${row.values.stop_name} (${row.values.stop_id}) is not served by any trip.`,
+    })
+  })
+}
+
+const checkCoordinates = (tables: Map<string, CsvRow[]>, stops: Stop[], issues: GtfsIssue[]) => {
+  if (stops.length === 0) return
+  const center: Stop = {
+    ...stops[0],
+    stop_lat: median(stops.map((stop) => stop.stop_lat)),
+    stop_lon: median(stops.map((stop) => stop.stop_lon)),
+  }
+  const distanceFromCenter = (lat: number, lon: number) => haversineDistanceKm(center, lat, lon)
+
+  stops.forEach((stop, index) => {
+    const distanceKm = distanceFromCenter(stop.stop_lat, stop.stop_lon)
+    if (distanceKm <= maxDistanceFromNetworkKm) return
+    issues.push({
+      severity: 'warning',
+      check: 'coordinates',
+      file: 'stops.txt',
+      line: (tables.get('stops.txt') ?? [])[index]?.line,
+      message: `Stop ${stop.stop_name} (${stop.stop_id}) is ${Math.round(
+        distanceKm
+      )} km from the rest of the network.`,
+    })
+  })
+
+  const flaggedShapes = new Set<string>()
+  ;(tables.get('shapes.txt') ?? []).forEach((row) => {
+    const shapeId = row.values.shape_id
+    if (flaggedShapes.has(shapeId)) return
+    const distanceKm = distanceFromCenter(
+      Number(row.values.shape_pt_lat),
+      Number(row.values.shape_pt_lon)
+    )
+    if (distanceKm <= maxDistanceFromNetworkKm) return
+    flaggedShapes.add(shapeId)
+    issues.push({
+      severity: 'warning',
+      check: 'coordinates',
+      file: 'shapes.txt',
+      line: row.line,
+      message: `Shape ${shapeId} has a point ${Math.round(distanceKm)} km from the stops.`,
+    })
+  })
+}
+
+// Each stop is reported once per shape, at the first trip that serves it.
+const checkStopsOnShapes = (
+  tables: Map<string, CsvRow[]>,
+  stopById: Map<string, Stop>,
+  issues: GtfsIssue[]
+) => {
+  const shapesById = groupShapes(tables.get('shapes.txt') ?? [])
+  if (shapesById.size === 0) return
+  const shapeByTrip = new Map(
+    (tables.get('trips.txt') ?? []).map((row) => [row.values.trip_id, row.values.shape_id])
+  )
+  const byTrip = new Map<string, CsvRow[]>()
+  ;(tables.get('stop_times.txt') ?? []).forEach((row) => {
+    const list = byTrip.get(row.values.trip_id) ?? []
+    list.push(row)
+    byTrip.set(row.values.trip_id, list)
+  })
+
+  const flagged = new Set<string>()
+  byTrip.forEach((rows, tripId) => {
+    const shapeId = shapeByTrip.get(tripId)
+    const shape = shapeId ? shapesById.get(shapeId) : undefined
+    if (!shape || shape.length < 2) return
+    const stops = rows
+      .sort((a, b) => Number(a.values.stop_sequence) - Number(b.values.stop_sequence))
+      .map((row) => stopById.get(row.values.stop_id))
+    if (stops.some((stop) => !stop)) return
+    projectOntoShape(
+      stops.map((stop) => ({ lat: stop?.stop_lat ?? 0, lon: stop?.stop_lon ?? 0 })),
+      shape
+    ).forEach((projection, index) => {
+      const stopId = rows[index].values.stop_id
+      if (projection.offsetKm <= maxStopOffsetKm || flagged.has(`${shapeId}:${stopId}`)) return
+      flagged.add(`${shapeId}:${stopId}`)
+      issues.push({
+        severity: 'warning',
+        check: 'stop-off-shape',
+        file: 'stop_times.txt',
+        line: rows[index].line,
+        message: `Stop ${stopId} is ${Math.round(
+          projection.offsetKm * 1000
+        )} m from shape ${shapeId}, used by trip ${tripId}.`,
+      })
+    })
+  })
+}
+
+const checkCalendarCoverage = (
+  tables: Map<string, CsvRow[]>,
+  feedInfo: Record<string, string> | undefined,
+  issues: GtfsIssue[]
+) => {
+  const calendarRows = tables.get('calendar.txt') ?? []
+  const exceptionRows = tables.get('calendar_dates.txt') ?? []
+  const calendars = calendarRows.map((row) => parseCalendarRow(row.values))
+  const exceptions = exceptionRows.map((row) => parseCalendarDateRow(row.values))
+  const start =
+    feedInfo?.feed_start_date ||
+    [...calendars.map((calendar) => calendar.start_date)].sort()[0] ||
+    [...exceptions.map((exception) => exception.date)].sort()[0]
+  const end =
+    feedInfo?.feed_end_date ||
+    [...calendars.map((calendar) => calendar.end_date)].sort().pop() ||
+    [...exceptions.map((exception) => exception.date)].sort().pop()
+  if (!start || !end) {
+    issues.push({
+      severity: 'error',
+      check: 'calendar-coverage',
+      file: 'calendar.txt',
+      message: 'No service dates are defined in calendar.txt or calendar_dates.txt.',
+    })
+    return
+  }
+
+  let gapStart: string | null = null
+  let gapDays = 0
+  const closeGap = (lastDay: string) => {
+    if (gapStart && gapDays >= minServiceGapDays) {
+      issues.push({
+        severity: 'warning',
+        check: 'calendar-coverage',
+        file: 'calendar.txt',
+        message: `No service runs from ${gapStart} to ${lastDay} (${gapDays} days).`,
+      })
+    }
+    gapStart = null
+    gapDays = 0
+  }
+  let date = start
+  for (let day = 0; date <= end && day < maxCoverageDays; day += 1) {
+    if (getActiveServiceIds(calendars, exceptions, date).size === 0) {
+      gapStart = gapStart ?? date
+      gapDays += 1
+    } else {
+      closeGap(addServiceDays(date, -1))
+    }
+    date = addServiceDays(date, 1)
+  }
+  closeGap(addServiceDays(date, -1))
+
+  const outside = exceptionRows.filter(
+    (row) => row.values.date < start || row.values.date > end
+  )
+  if (outside.length > 0) {
+    const dates = outside.map((row) => row.values.date).sort()
+    issues.push({
+      severity: 'warning',
+      check: 'calendar-coverage',
+      file: 'calendar_dates.txt',
+      line: outside[0].line,
+      message: `${outside.length} exception${
+        outside.length === 1 ? ' falls' : 's fall'
+      } outside the feed period ${start}-${end} (${dates[0]} to ${dates[dates.length - 1]}).`,
+    })
+  }
+
+  calendarRows.forEach((row, index) => {
+    const calendar = calendars[index]
+    if (addServiceDays(calendar.start_date, minHolidayCheckDays) > calendar.end_date) return
+    const hasException = exceptions.some(
+      (exception) =>
+        exception.service_id === calendar.service_id &&
+        exception.date >= calendar.start_date &&
+        exception.date <= calendar.end_date
+    )
+    if (hasException) return
+    issues.push({
+      severity: 'warning',
+      check: 'calendar-coverage',
+      file: 'calendar.txt',
+      line: row.line,
+      message: `Service ${calendar.service_id} runs ${calendar.start_date}-${calendar.end_date} with no calendar_dates.txt exceptions, so holidays will show regular service.`,
+    })
+  })
+}
+
+export const validateFeed = (files: GtfsFiles, generatedAt: string): FeedReport => {
+  const { tables, issues } = validateGtfsFiles(files)
+  const stops = (tables.get('stops.txt') ?? []).map(toStop)
+  const stopById = new Map(stops.map((stop) => [stop.stop_id, stop]))
+
+  tables.forEach((rows, file) => {
+    if (rows.length > 0 || issues.some((issue) => issue.file === file)) return
+    issues.push({
+      severity: 'warning',
+      check: 'empty-file',
+      file,
+      message: 'The file has a header but no rows; leave optional files out instead.',
+    })
+  })
+  checkStopTimes(tables.get('stop_times.txt') ?? [], stopById, issues)
+  checkOrphans(tables, issues)
+  checkCoordinates(tables, stops, issues)
+  checkStopsOnShapes(tables, stopById, issues)
+  checkCalendarCoverage(tables, parseCsvTable(files['feed_info.txt'] ?? '').rows[0]?.values, issues)
+
+  return {
+    generatedAt,
+    feedVersion: parseFeedVersion(files['feed_info.txt']),
+    counts: {
+      errors: issues.filter((issue) => issue.severity === 'error').length,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    },
+    rowCounts: Object.fromEntries([...tables].map(([file, rows]) => [file, rows.length])),
+    issues,
+  }
+}
+
+const formatIssueLocation = (issue: GtfsIssue) =>
+  `\`${issue.file}${issue.line ? `:${issue.line}` : ''}\``
+
+export const formatFeedReportMarkdown = (report: FeedReport, maxPerCheck = 50) => {
+  const lines = [
+    '# GTFS feed validation report',
+    '',
+    `Feed version ${report.feedVersion ?? 'not set'}, checked ${report.generatedAt}.`,
+    '',
+    `- Errors: ${report.counts.errors}`,
+    `- Warnings: ${report.counts.warnings}`,
+    '',
+    '| File | Valid rows |',
+    '| --- | ---: |',
+    ...Object.entries(report.rowCounts).map(([file, rows]) => `| ${file} | ${rows} |`),
+  ]
+  ;(['error', 'warning'] as const).forEach((severity) => {
+    const matching = report.issues.filter((issue) => issue.severity === severity)
+    if (matching.length === 0) return
+    lines.push('', `## ${severity === 'error' ? 'Errors' : 'Warnings'}`)
+    ;(Object.keys(checkLabels) as GtfsIssueCheck[]).forEach((check) => {
+      const issues = matching.filter((issue) => issue.check === check)
+      if (issues.length === 0) return
+      lines.push('', `### ${checkLabels[check]} (${issues.length})`, '')
+      issues
+        .slice(0, maxPerCheck)
+        .forEach((issue) => lines.push(`- ${formatIssueLocation(issue)} ${issue.message}`))
+      if (issues.length > maxPerCheck) {
+        lines.push(`- ...and ${issues.length - maxPerCheck} more in the JSON report.`)
+      }
+    })
+  })
+  if (report.issues.length === 0) lines.push('', 'No problems found.')
+  return `${lines.join('\n')}\n`
+}
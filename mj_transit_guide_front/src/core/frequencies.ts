@@ -0,0 +1,89 @@
+import { minutesToTime, timeToMinutes } from './time'
+import type { StopTime, Trip } from './types'
+
+export type Frequency = {
+  trip_id: string
+  start_time: string
+  end_time: string
+  headway_secs: number
+  exact_times: boolean
+}
+
+export const parseFrequencyRow = (row: Record<string, string>): Frequency => ({
+  trip_id: row.trip_id,
+  start_time: row.start_time,
+  end_time: row.end_time,
+  headway_secs: Number(row.headway_secs),
+  exact_times: row.exact_times === '1',
+})
+
+// Trips listed in frequencies.txt are templates: their stop_times give the travel pattern and
+// each headway in the window becomes a concrete trip shifted to that start time. For
+// exact_times=0 the instances only approximate when buses come, which the trip records so the
+// UI can show the headway instead.
+export const expandFrequencyTrips = (
+  trips: Trip[],
+  stopTimesByTrip: Map<string, StopTime[]>,
+  frequencies: Frequency[]
+) => {
+  if (frequencies.length === 0) return { trips, stopTimesByTrip }
+  const windowsByTrip = new Map<string, Frequency[]>()
+  frequencies.forEach((frequency) => {
+    const list = windowsByTrip.get(frequency.trip_id) ?? []
+    list.push(frequency)
+    windowsByTrip.set(frequency.trip_id, list)
+  })
+
+  const expandedTrips: Trip[] = []
+  const expandedStopTimes = new Map(stopTimesByTrip)
+  trips.forEach((trip) => {
+    const windows = windowsByTrip.get(trip.trip_id)
+    const template = stopTimesByTrip.get(trip.trip_id)
+    if (!windows || !template || template.length === 0) {
+      expandedTrips.push(trip)
+      return
+    }
+    expandedStopTimes.delete(trip.trip_id)
+    const templateStart = timeToMinutes(template[0].departure_time || template[0].arrival_time)
+    windows.forEach((headwayWindow) => {
+      const headwayMinutes = headwayWindow.headway_secs / 60
+      const windowStart = timeToMinutes(headwayWindow.start_time)
+      const end = timeToMinutes(headwayWindow.end_time)
+      for (let index = 0; windowStart + index * headwayMinutes < end; index += 1) {
+        const start = windowStart + index * headwayMinutes
+        const tripId = `${trip.trip_id}@${minutesToTime(start)}`
+        const shift = (value: string) =>
+          value ? minutesToTime(timeToMinutes(value) - templateStart + start) : value
+        expandedTrips.push({
+          ...trip,
+          trip_id: tripId,
+          frequency: {
+            baseTripId: trip.trip_id,
+            headwayMinutes,
+            exactTimes: headwayWindow.exact_times,
+            windowStart: headwayWindow.start_time,
+            windowEnd: headwayWindow.end_time,
+          },
+        })
+        expandedStopTimes.set(
+          tripId,
+          template.map((stopTime) => ({
+            ...stopTime,
+            trip_id: tripId,
+            arrival_time: shift(stopTime.arrival_time),
+            departure_time: shift(stopTime.departure_time),
+          }))
+        )
+      }
+    })
+  })
+  return { trips: expandedTrips, stopTimesByTrip: expandedStopTimes }
+}
+
+export const isHeadwayTrip = (trip: Trip) => Boolean(trip.frequency && !trip.frequency.exactTimes)
+
+export const describeHeadway = (trip: Trip) => {
+  if (!trip.frequency || trip.frequency.exactTimes) return null
+  const minutes = Math.round(trip.frequency.headwayMinutes)
+  return `every ${minutes} minute${minutes === 1 ? '' : 's'}`
+}
@@ -0,0 +1,64 @@
+import type { Stop } from './types'
+
+export const haversineDistanceKm = (a: Stop, lat: number, lon: number) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const earthRadiusKm = 6371
+  const dLat = toRad(lat - a.stop_lat)
+  const dLon = toRad(lon - a.stop_lon)
+  const originLat = toRad(a.stop_lat)
+  const destLat = toRad(lat)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(originLat) * Math.cos(destLat) * Math.sin(dLon / 2) ** 2
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(h))
+}
+
+export const findNearestStop = (stops: Stop[], lat: number, lon: number) => {
+  let nearest = stops[0]
+  let nearestDistance = haversineDistanceKm(nearest, lat, lon)
+  for (const stop of stops) {
+    const distance = haversineDistanceKm(stop, lat, lon)
+    if (distance < nearestDistance) {
+      nearest = stop
+      nearestDistance = distance
+    }
+  }
+  return { stop: nearest, distanceKm: nearestDistance }
+}
+
+export type Bounds = {
+  minLat: number
+  maxLat: number
+  minLon: number
+  maxLon: number
+}
+
+export const computeStopBounds = (stops: Stop[], padding: number): Bounds | null => {
+  if (stops.length === 0) return null
+  let minLat = Infinity
+  let maxLat = -Infinity
+  let minLon = Infinity
+  let maxLon = -Infinity
+  stops.forEach((stop) => {
+    if (stop.stop_lat < minLat) minLat = stop.stop_lat
+    if (stop.stop_lat > maxLat) maxLat = stop.stop_lat
+    if (stop.stop_lon < minLon) minLon = stop.stop_lon
+    if (stop.stop_lon > maxLon) maxLon = stop.stop_lon
+  })
+  return {
+    minLat: minLat - padding,
+    maxLat: maxLat + padding,
+    minLon: minLon - padding,
+    maxLon: maxLon + padding,
+  }
+}
+
+export const isWithinBounds = (lat: number, lon: number, bounds: Bounds | null) => {
+  if (!bounds) return true
+  return (
+    lat >= bounds.minLat &&
+    lat <= bounds.maxLat &&
+    lon >= bounds.minLon &&
+    lon <= bounds.maxLon
+  )
+}
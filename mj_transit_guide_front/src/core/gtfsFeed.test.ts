@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { buildGtfsFiles, lineOfStops, loadBundledFeedFiles } from '../test/gtfsFixtures'
+import { parseGtfsFeed } from './gtfsFeed'
+import { timeToMinutes } from './time'
+
+describe('parseGtfsFeed', () => {
+  const feed = parseGtfsFeed(loadBundledFeedFiles())
+
+  it('parses the bundled feed without validation problems', () => {
+    expect(feed.feedVersion).toBe('2')
+    expect(feed.issueCounts).toEqual({ errors: 0, warnings: 0 })
+    expect(feed.routes.map((route) => route.route_short_name)).toEqual(
+      expect.arrayContaining(['1', '2', '3', '4'])
+    )
+    expect(feed.trips).toHaveLength(68)
+    expect(feed.trips.every((trip) => feed.stopTimesByTrip.has(trip.trip_id))).toBe(true)
+  })
+
+  it('keeps stop times in order, with times and shape distances that never go backwards', () => {
+    feed.stopTimesByTrip.forEach((stopTimes) => {
+      stopTimes.forEach((stopTime, index) => {
+        const previous = stopTimes[index - 1]
+        if (!previous) return
+        expect(stopTime.stop_sequence).toBeGreaterThan(previous.stop_sequence)
+        expect(timeToMinutes(stopTime.arrival_time)).toBeGreaterThanOrEqual(
+          timeToMinutes(previous.departure_time)
+        )
+        expect(stopTime.shape_dist_traveled ?? 0).toBeGreaterThanOrEqual(
+          previous.shape_dist_traveled ?? 0
+        )
+      })
+    })
+  })
+
+  it('estimates the times of non-timepoint stops and keeps timepoints as published', () => {
+    const stopTimes = feed.stopTimesByTrip.get('1MT_0715') ?? []
+    expect(stopTimes[0]).toMatchObject({ departure_time: '07:15:00', estimated: false })
+    expect(stopTimes[1]).toMatchObject({ timepoint: false, estimated: true })
+    const timepoints = stopTimes.filter((stopTime) => stopTime.timepoint)
+    expect(timepoints.every((stopTime) => !stopTime.estimated)).toBe(true)
+  })
+
+  it('rejects a feed without its required files', () => {
+    const files = buildGtfsFiles({ stops: lineOfStops(['A']), trips: [] })
+    delete files['stop_times.txt']
+    expect(() => parseGtfsFeed(files)).toThrow('The GTFS feed is missing stop_times.txt.')
+  })
+
+  it('reads quoted fields and counts rows that fail validation', () => {
+    const files = buildGtfsFiles({
+      stops: lineOfStops(['A', 'B']),
+      trips: [{ id: 'T', route: 'R', stopTimes: [['A', '08:00:00'], ['B', '08:10:00']] }],
+    })
+    files['stops.txt'] = files['stops.txt']
+      .replace('Stop A', '"Main, St"')
+      .concat('C,Stop C,not-a-latitude,-105.55\n')
+    const parsed = parseGtfsFeed(files)
+    expect(parsed.stops.map((stop) => stop.stop_name)).toEqual(['Main, St', 'Stop B'])
+    expect(parsed.issueCounts.errors).toBe(1)
+  })
+})
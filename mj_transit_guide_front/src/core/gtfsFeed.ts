@@ -0,0 +1,174 @@
+import {
+  parseCalendarDateRow,
+  parseCalendarRow,
+  type ServiceCalendar,
+  type ServiceException,
+} from './calendar'
+import { parseCsvTable, type CsvRow } from './csv'
+import { expandFrequencyTrips, parseFrequencyRow } from './frequencies'
+import { gtfsSchemas, validateGtfsFiles, type GtfsFiles } from './gtfsSchema'
+import { interpolateStopTimes } from './interpolation'
+import { snapStopTimes } from './shapes'
+import type { AccessibilityCode, Route, Stop, StopTime, Trip } from './types'
+
+export type { GtfsFiles } from './gtfsSchema'
+
+export type ShapePoint = {
+  lat: number
+  lon: number
+}
+
+export type GtfsFeed = {
+  feedVersion: string | null
+  stops: Stop[]
+  routes: Route[]
+  trips: Trip[]
+  stopTimesByTrip: Map<string, StopTime[]>
+  shapesById: Map<string, ShapePoint[]>
+  calendars: ServiceCalendar[]
+  calendarExceptions: ServiceException[]
+  issueCounts: { errors: number; warnings: number }
+}
+
+// Bump when GtfsFeed changes shape so feeds cached by an older build are parsed again.
+export const gtfsFeedFormat = 7
+
+export const requiredGtfsFiles = gtfsSchemas
+  .filter((schema) => schema.required)
+  .map((schema) => schema.file)
+
+export const gtfsFileNames = [...gtfsSchemas.map((schema) => schema.file), 'feed_info.txt']
+
+export const emptyGtfsFeed: GtfsFeed = {
+  feedVersion: null,
+  stops: [],
+  routes: [],
+  trips: [],
+  stopTimesByTrip: new Map(),
+  shapesById: new Map(),
+  calendars: [],
+  calendarExceptions: [],
+  issueCounts: { errors: 0, warnings: 0 },
+}
+
+export const parseFeedVersion = (raw: string | undefined) =>
+  (raw ? parseCsvTable(raw).rows[0]?.values.feed_version : undefined) || null
+
+const toAccessibilityCode = (value: string | undefined): AccessibilityCode =>
+  value === '1' ? 1 : value === '2' ? 2 : 0
+
+const groupStopTimes = (rows: CsvRow[]) => {
+  const grouped = new Map<string, StopTime[]>()
+  rows.forEach(({ values: row }) => {
+    const list = grouped.get(row.trip_id) ?? []
+    list.push({
+      trip_id: row.trip_id,
+      arrival_time: row.arrival_time,
+      departure_time: row.departure_time,
+      stop_id: row.stop_id,
+      stop_sequence: Number(row.stop_sequence),
+      timepoint: row.timepoint !== '0',
+      estimated: false,
+      shape_dist_traveled: null,
+    })
+    grouped.set(row.trip_id, list)
+  })
+  grouped.forEach((list) => list.sort((a, b) => a.stop_sequence - b.stop_sequence))
+  return grouped
+}
+
+export const groupShapes = (rows: CsvRow[]) => {
+  const grouped = new Map<string, Array<ShapePoint & { sequence: number }>>()
+  rows.forEach(({ values: row }) => {
+    const list = grouped.get(row.shape_id) ?? []
+    list.push({
+      lat: Number(row.shape_pt_lat),
+      lon: Number(row.shape_pt_lon),
+      sequence: Number(row.shape_pt_sequence),
+    })
+    grouped.set(row.shape_id, list)
+  })
+  const shapes = new Map<string, ShapePoint[]>()
+  grouped.forEach((list, shapeId) => {
+    list.sort((a, b) => a.sequence - b.sequence)
+    shapes.set(
+      shapeId,
+      list.map(({ lat, lon }) => ({ lat, lon }))
+    )
+  })
+  return shapes
+}
+
+// Rows that fail validation are skipped; the feed records how many problems were found.
+export const parseGtfsFeed = (files: GtfsFiles): GtfsFeed => {
+  const missing = requiredGtfsFiles.filter((name) => files[name] === undefined)
+  if (missing.length > 0) {
+    throw new Error(`The GTFS feed is missing ${missing.join(', ')}.`)
+  }
+  const { tables, issues } = validateGtfsFiles(files)
+  const rows = (file: string) => (tables.get(file) ?? []).map((row) => row.values)
+  const stopRows = rows('stops.txt')
+  // A stop with no wheelchair information inherits it from its parent station.
+  const boardingByStop = new Map(
+    stopRows.map((row) => [row.stop_id, toAccessibilityCode(row.wheelchair_boarding)])
+  )
+  const stops: Stop[] = stopRows.map((row) => ({
+    stop_id: row.stop_id,
+    stop_code: row.stop_code ?? '',
+    stop_name: row.stop_name,
+    stop_lat: Number(row.stop_lat),
+    stop_lon: Number(row.stop_lon),
+    wheelchair_boarding:
+      boardingByStop.get(row.stop_id) || boardingByStop.get(row.parent_station ?? '') || 0,
+  }))
+  const stopById = new Map(stops.map((stop) => [stop.stop_id, stop]))
+  const shapesById = groupShapes(tables.get('shapes.txt') ?? [])
+  const scheduledTrips: Trip[] = rows('trips.txt').map((row) => ({
+    trip_id: row.trip_id,
+    route_id: row.route_id,
+    service_id: row.service_id,
+    trip_headsign: row.trip_headsign ?? '',
+    trip_short_name: row.trip_short_name ?? '',
+    shape_id: row.shape_id ?? '',
+    direction_id: row.direction_id === '0' ? 0 : row.direction_id === '1' ? 1 : null,
+    wheelchair_accessible: toAccessibilityCode(row.wheelchair_accessible),
+    bikes_allowed: toAccessibilityCode(row.bikes_allowed),
+  }))
+  const scheduledStopTimes = groupStopTimes(tables.get('stop_times.txt') ?? [])
+  scheduledTrips.forEach((trip) => {
+    const stopTimes = scheduledStopTimes.get(trip.trip_id)
+    if (!stopTimes) return
+    scheduledStopTimes.set(
+      trip.trip_id,
+      interpolateStopTimes(
+        snapStopTimes(stopTimes, stopById, shapesById.get(trip.shape_id)),
+        stopById
+      )
+    )
+  })
+  const { trips, stopTimesByTrip } = expandFrequencyTrips(
+    scheduledTrips,
+    scheduledStopTimes,
+    rows('frequencies.txt').map(parseFrequencyRow)
+  )
+  return {
+    feedVersion: parseFeedVersion(files['feed_info.txt']),
+    stops,
+    routes: rows('routes.txt').map((row) => ({
+      route_id: row.route_id,
+      route_short_name: row.route_short_name ?? '',
+      route_long_name: row.route_long_name ?? '',
+      route_color: row.route_color ?? '',
+      route_text_color: row.route_text_color ?? '',
+    })),
+    trips,
+    stopTimesByTrip,
+    shapesById,
+    calendars: rows('calendar.txt').map(parseCalendarRow),
+    calendarExceptions: rows('calendar_dates.txt').map(parseCalendarDateRow),
+    issueCounts: {
+      errors: issues.filter((issue) => issue.severity === 'error').length,
+      warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    },
+  }
+}
@@ -0,0 +1,409 @@
+import { parseCsvTable, type CsvRow } from './csv'
+
+export type GtfsFiles = Record<string, string>
+
+export type GtfsFieldType =
+  | 'id'
+  | 'text'
+  | 'url'
+  | 'integer'
+  | 'float'
+  | 'latitude'
+  | 'longitude'
+  | 'time'
+  | 'date'
+  | 'color'
+  | 'enum'
+
+export type GtfsFieldSchema = {
+  name: string
+  type: GtfsFieldType
+  required?: boolean
+  // Allowed values for enum fields.
+  values?: string[]
+  min?: number
+  // The value must match this field in at least one of the listed files.
+  references?: Array<{ file: string; field: string }>
+}
+
+export type GtfsFileSchema = {
+  file: string
+  required: boolean
+  primaryKey?: string[]
+  fields: GtfsFieldSchema[]
+}
+
+export type GtfsIssueCheck =
+  | 'file'
+  | 'format'
+  | 'required'
+  | 'type'
+  | 'reference'
+  | 'duplicate'
+  | 'route-name'
+  | 'empty-file'
+  | 'stop-time-order'
+  | 'orphan-route'
+  | 'orphan-stop'
+  | 'calendar-coverage'
+  | 'coordinates'
+  | 'speed'
+  | 'stop-off-shape'
+
+export type GtfsIssue = {
+  severity: 'error' | 'warning'
+  // Which check raised the issue; reports group issues by it.
+  check: GtfsIssueCheck
+  file: string
+  // Missing for problems with the file as a whole.
+  line?: number
+  field?: string
+  message: string
+}
+
+export type GtfsValidation = {
+  // Rows that passed validation, keyed by file name. Rows with errors are left out.
+  tables: Map<string, CsvRow[]>
+  issues: GtfsIssue[]
+}
+
+const serviceReferences = [
+  { file: 'calendar.txt', field: 'service_id' },
+  { file: 'calendar_dates.txt', field: 'service_id' },
+]
+
+const binary = ['0', '1']
+
+const weekdayFields = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+].map((name): GtfsFieldSchema => ({ name, type: 'enum', required: true, values: binary }))
+
+// Listed in dependency order, so references are checked against rows that already passed.
+export const gtfsSchemas: GtfsFileSchema[] = [
+  {
+    file: 'stops.txt',
+    required: true,
+    primaryKey: ['stop_id'],
+    fields: [
+      { name: 'stop_id', type: 'id', required: true },
+      { name: 'stop_code', type: 'text' },
+      { name: 'stop_name', type: 'text', required: true },
+      { name: 'stop_lat', type: 'latitude', required: true },
+      { name: 'stop_lon', type: 'longitude', required: true },
+      { name: 'location_type', type: 'enum', values: ['0', '1', '2', '3', '4'] },
+      { name: 'parent_station', type: 'id' },
+      { name: 'wheelchair_boarding', type: 'enum', values: ['0', '1', '2'] },
+    ],
+  },
+  {
+    file: 'routes.txt',
+    required: true,
+    primaryKey: ['route_id'],
+    fields: [
+      { name: 'route_id', type: 'id', required: true },
+      { name: 'agency_id', type: 'id' },
+      { name: 'route_short_name', type: 'text' },
+      { name: 'route_long_name', type: 'text' },
+      { name: 'route_desc', type: 'text' },
+      {
+        name: 'route_type',
+        type: 'enum',
+        required: true,
+        values: ['0', '1', '2', '3', '4', '5', '6', '7', '11', '12'],
+      },
+      { name: 'route_url', type: 'url' },
+      { name: 'route_color', type: 'color' },
+      { name: 'route_text_color', type: 'color' },
+    ],
+  },
+  {
+    file: 'calendar.txt',
+    required: false,
+    primaryKey: ['service_id'],
+    fields: [
+      { name: 'service_id', type: 'id', required: true },
+      ...weekdayFields,
+      { name: 'start_date', type: 'date', required: true },
+      { name: 'end_date', type: 'date', required: true },
+    ],
+  },
+  {
+    file: 'calendar_dates.txt',
+    required: false,
+    primaryKey: ['service_id', 'date'],
+    fields: [
+      { name: 'service_id', type: 'id', required: true },
+      { name: 'date', type: 'date', required: true },
+      { name: 'exception_type', type: 'enum', required: true, values: ['1', '2'] },
+    ],
+  },
+  {
+    file: 'shapes.txt',
+    required: false,
+    primaryKey: ['shape_id', 'shape_pt_sequence'],
+    fields: [
+      { name: 'shape_id', type: 'id', required: true },
+      { name: 'shape_pt_lat', type: 'latitude', required: true },
+      { name: 'shape_pt_lon', type: 'longitude', required: true },
+      { name: 'shape_pt_sequence', type: 'integer', required: true, min: 0 },
+      { name: 'shape_dist_traveled', type: 'float', min: 0 },
+    ],
+  },
+  {
+    file: 'trips.txt',
+    required: true,
+    primaryKey: ['trip_id'],
+    fields: [
+      {
+        name: 'route_id',
+        type: 'id',
+        required: true,
+        references: [{ file: 'routes.txt', field: 'route_id' }],
+      },
+      { name: 'service_id', type: 'id', required: true, references: serviceReferences },
+      { name: 'trip_id', type: 'id', required: true },
+      { name: 'trip_headsign', type: 'text' },
+      { name: 'trip_short_name', type: 'text' },
+      { name: 'direction_id', type: 'enum', values: binary },
+      { name: 'block_id', type: 'id' },
+      {
+        name: 'shape_id',
+        type: 'id',
+        references: [{ file: 'shapes.txt', field: 'shape_id' }],
+      },
+      { name: 'wheelchair_accessible', type: 'enum', values: ['0', '1', '2'] },
+      { name: 'bikes_allowed', type: 'enum', values: ['0', '1', '2'] },
+    ],
+  },
+  {
+    file: 'stop_times.txt',
+    required: true,
+    primaryKey: ['trip_id', 'stop_sequence'],
+    fields: [
+      {
+        name: 'trip_id',
+        type: 'id',
+        required: true,
+        references: [{ file: 'trips.txt', field: 'trip_id' }],
+      },
+      { name: 'arrival_time', type: 'time' },
+      { name: 'departure_time', type: 'time' },
+      {
+        name: 'stop_id',
+        type: 'id',
+        required: true,
+        references: [{ file: 'stops.txt', field: 'stop_id' }],
+      },
+      { name: 'stop_sequence', type: 'integer', required: true, min: 0 },
+      { name: 'stop_headsign', type: 'text' },
+      { name: 'pickup_type', type: 'enum', values: ['0', '1', '2', '3'] },
+      { name: 'drop_off_type', type: 'enum', values: ['0', '1', '2', '3'] },
+      { name: 'shape_dist_traveled', type: 'float', min: 0 },
+      { name: 'timepoint', type: 'enum', values: binary },
+    ],
+  },
+  {
+    file: 'frequencies.txt',
+    required: false,
+    primaryKey: ['trip_id', 'start_time'],
+    fields: [
+      {
+        name: 'trip_id',
+        type: 'id',
+        required: true,
+        references: [{ file: 'trips.txt', field: 'trip_id' }],
+      },
+      { name: 'start_time', type: 'time', required: true },
+      { name: 'end_time', type: 'time', required: true },
+      { name: 'headway_secs', type: 'integer', required: true, min: 1 },
+      { name: 'exact_times', type: 'enum', values: binary },
+    ],
+  },
+]
+
+const isValidDate = (value: string) => {
+  if (!/^\d{8}$/.test(value)) return false
+  const year = Number(value.slice(0, 4))
+  const month = Number(value.slice(4, 6))
+  const day = Number(value.slice(6, 8))
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+const checkType = (field: GtfsFieldSchema, value: string) => {
+  const number = Number(value)
+  switch (field.type) {
+    case 'integer':
+      if (!/^-?\d+$/.test(value)) return 'must be a whole number'
+      break
+    case 'float':
+      if (value === '' || !Number.isFinite(number)) return 'must be a number'
+      break
+    case 'latitude':
+      if (value === '' || !Number.isFinite(number) || Math.abs(number) > 90) {
+        return 'must be a latitude between -90 and 90'
+      }
+      break
+    case 'longitude':
+      if (value === '' || !Number.isFinite(number) || Math.abs(number) > 180) {
+        return 'must be a longitude between -180 and 180'
+      }
+      break
+    case 'time':
+      if (!/^\d{1,2}:[0-5]\d:[0-5]\d$/.test(value)) return 'must be a time as HH:MM:SS'
+      break
+    case 'date':
+      if (!isValidDate(value)) return 'must be a date as YYYYMMDD'
+      break
+    case 'color':
+      if (!/^[0-9a-fA-F]{6}$/.test(value)) return 'must be a six-digit hex color'
+      break
+    case 'enum':
+      if (!field.values?.includes(value)) return `must be one of ${field.values?.join(', ')}`
+      break
+    case 'url':
+      if (!/^https?:\/\/\S+$/i.test(value)) return 'must be an http or https URL'
+      break
+  }
+  if (field.min !== undefined && number < field.min) return `must be at least ${field.min}`
+  return null
+}
+
+// Problems in required fields, or in references they make, are errors and drop the row.
+// Problems in optional fields are warnings; the row is kept and the value blanked.
+export const validateGtfsFiles = (files: GtfsFiles): GtfsValidation => {
+  const tables = new Map<string, CsvRow[]>()
+  const keys = new Map<string, Set<string>>()
+  const issues: GtfsIssue[] = []
+
+  const referenceKeys = (file: string, field: string) => {
+    const id = `${file}:${field}`
+    let set = keys.get(id)
+    if (!set) {
+      set = new Set((tables.get(file) ?? []).map((row) => row.values[field]))
+      keys.set(id, set)
+    }
+    return set
+  }
+
+  gtfsSchemas.forEach((schema) => {
+    const text = files[schema.file]
+    if (text === undefined) {
+      if (schema.required) {
+        issues.push({
+          severity: 'error',
+          check: 'file',
+          file: schema.file,
+          message: 'Required file is missing.',
+        })
+      }
+      return
+    }
+    const table = parseCsvTable(text)
+    table.problems.forEach((problem) =>
+      issues.push({ severity: 'error', check: 'format', file: schema.file, ...problem })
+    )
+    schema.fields
+      .filter((field) => field.required && !table.headers.includes(field.name))
+      .forEach((field) =>
+        issues.push({
+          severity: 'error',
+          check: 'required',
+          file: schema.file,
+          line: 1,
+          field: field.name,
+          message: `Required column ${field.name} is missing.`,
+        })
+      )
+
+    const seen = new Set<string>()
+    const valid: CsvRow[] = []
+    table.rows.forEach((row) => {
+      const report = (
+        severity: GtfsIssue['severity'],
+        check: GtfsIssueCheck,
+        message: string,
+        field?: string
+      ) => issues.push({ severity, check, file: schema.file, line: row.line, field, message })
+      let failed = false
+
+      if (row.fieldCount !== table.headers.length) {
+        report(
+          'warning',
+          'format',
+          `Expected ${table.headers.length} fields but found ${row.fieldCount}.`
+        )
+      }
+      schema.fields.forEach((field) => {
+        const value = row.values[field.name] ?? ''
+        const severity = field.required ? 'error' : 'warning'
+        if (value === '') {
+          if (field.required) {
+            report('error', 'required', `${field.name} is required.`, field.name)
+            failed = true
+          }
+          return
+        }
+        const typeProblem = checkType(field, value)
+        const missingReference =
+          !typeProblem &&
+          field.references &&
+          !field.references.some((reference) =>
+            referenceKeys(reference.file, reference.field).has(value)
+          )
+        if (typeProblem) {
+          report(severity, 'type', `${field.name} "${value}" ${typeProblem}.`, field.name)
+        } else if (missingReference) {
+          report(
+            severity,
+            'reference',
+            `${field.name} "${value}" does not match any ${field.references
+              ?.map((reference) => reference.file)
+              .join(' or ')} entry.`,
+            field.name
+          )
+        } else {
+          return
+        }
+        if (field.required) failed = true
+        else row.values[field.name] = ''
+      })
+
+      if (!failed && schema.primaryKey) {
+        const parts = schema.primaryKey.map((name) => row.values[name])
+        const key = parts.join('\u0000')
+        if (seen.has(key)) {
+          report('error', 'duplicate', `Duplicate ${schema.primaryKey.join(' + ')} "${parts.join(', ')}".`)
+          failed = true
+        }
+        seen.add(key)
+      }
+      if (!failed) valid.push(row)
+    })
+    tables.set(schema.file, valid)
+  })
+
+  // Every route needs a name of some kind.
+  tables.get('routes.txt')?.forEach((row) => {
+    if (!row.values.route_short_name && !row.values.route_long_name) {
+      issues.push({
+        severity: 'warning',
+        check: 'route-name',
+        file: 'routes.txt',
+        line: row.line,
+        message: 'Either route_short_name or route_long_name should be set.',
+      })
+    }
+  })
+
+  return { tables, issues }
+}
+
+export const formatGtfsIssue = (issue: GtfsIssue) =>
+  `${issue.file}${issue.line ? `:${issue.line}` : ''} ${issue.severity}: ${issue.message}`
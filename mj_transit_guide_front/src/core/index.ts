@@ -0,0 +1,22 @@
+// Public API of the framework-free core: GTFS parsing and validation, service calendars,
+// geometry, the planner and the departure and timetable views. The UI imports from here only.
+export * from './alerts'
+export * from './calendar'
+export * from './csv'
+export * from './departures'
+export * from './directions'
+export * from './feedValidation'
+export * from './frequencies'
+export * from './geometry'
+export * from './gtfsFeed'
+export * from './gtfsSchema'
+export * from './interpolation'
+export * from './legProgress'
+export * from './planLink'
+export * from './planner'
+export * from './raptor'
+export * from './realtime'
+export * from './shapes'
+export * from './time'
+export * from './timetable'
+export * from './types'
@@ -0,0 +1,45 @@
+import { measureStopDistances } from './shapes'
+import { minutesToTime, timeToMinutes } from './time'
+import type { Stop, StopTime } from './types'
+
+const isAnchor = (stopTime: StopTime) =>
+  stopTime.timepoint && Boolean(stopTime.arrival_time || stopTime.departure_time)
+
+// Stops marked timepoint=0 usually repeat the previous timepoint's time. Their times are
+// re-estimated between the surrounding timepoints in proportion to the distance travelled, and
+// flagged as estimated. Stops before the first or after the last timepoint are left alone.
+export const interpolateStopTimes = (
+  stopTimes: StopTime[],
+  stopById: Map<string, Pick<Stop, 'stop_lat' | 'stop_lon'>>
+): StopTime[] => {
+  const anchors = stopTimes.flatMap((stopTime, index) => (isAnchor(stopTime) ? [index] : []))
+  const needsEstimate = anchors.some((anchor, index) => {
+    const next = anchors[index + 1]
+    return next !== undefined && next - anchor > 1
+  })
+  if (!needsEstimate) return stopTimes
+
+  if (stopTimes.some((stopTime) => !stopById.has(stopTime.stop_id))) return stopTimes
+  const distancesKm = measureStopDistances(stopTimes, stopById)
+
+  const estimated = [...stopTimes]
+  anchors.forEach((from, anchorIndex) => {
+    const to = anchors[anchorIndex + 1]
+    if (to === undefined || to - from < 2) return
+    const startMinutes = timeToMinutes(stopTimes[from].departure_time || stopTimes[from].arrival_time)
+    const endMinutes = timeToMinutes(stopTimes[to].arrival_time || stopTimes[to].departure_time)
+    const spanKm = distancesKm[to] - distancesKm[from]
+    for (let index = from + 1; index < to; index += 1) {
+      const share =
+        spanKm > 0 ? (distancesKm[index] - distancesKm[from]) / spanKm : (index - from) / (to - from)
+      const time = minutesToTime(startMinutes + (endMinutes - startMinutes) * share)
+      estimated[index] = {
+        ...stopTimes[index],
+        arrival_time: time,
+        departure_time: time,
+        estimated: true,
+      }
+    }
+  })
+  return estimated
+}
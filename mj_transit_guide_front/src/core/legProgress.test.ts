@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { buildGtfsFiles, lineOfStops } from '../test/gtfsFixtures'
+import { parseGtfsFeed } from './gtfsFeed'
+import { getLegStops, locateOnLeg } from './legProgress'
+import { snapStopTimes } from './shapes'
+
+const stops = lineOfStops(['A', 'B', 'C', 'D'])
+const feed = parseGtfsFeed(
+  buildGtfsFiles({
+    stops,
+    trips: [
+      {
+        id: 'Line',
+        route: 'R',
+        stopTimes: [
+          ['A', '08:00:00'],
+          ['B', '08:10:00'],
+          ['C', '08:20:00'],
+          ['D', '08:30:00'],
+        ],
+      },
+      {
+        id: 'Loop',
+        route: 'R',
+        stopTimes: [
+          ['A', '09:00:00'],
+          ['B', '09:10:00'],
+          ['C', '09:20:00'],
+          ['A', '09:30:00'],
+          ['B', '09:40:00'],
+          ['D', '09:50:00'],
+        ],
+      },
+    ],
+  })
+)
+const stopById = new Map(feed.stops.map((stop) => [stop.stop_id, stop]))
+const shape = stops.map(({ lat, lon }) => ({ lat, lon }))
+const lineStopTimes = feed.stopTimesByTrip.get('Line') ?? []
+const wholeLine = getLegStops(
+  { boardSequence: 1, alightSequence: 4 },
+  snapStopTimes(lineStopTimes, stopById, shape),
+  stopById
+)
+const wholeLineWithoutShape = getLegStops(
+  { boardSequence: 1, alightSequence: 4 },
+  lineStopTimes,
+  stopById
+)
+
+// The stops are about 1 km apart going north; 0.0018 degrees of latitude is about 200 m.
+const stopB = stops[1]
+const stopD = stops[3]
+
+describe('getLegStops', () => {
+  it('keeps only the stops between the boarding and alighting visits of a loop', () => {
+    const legStops = getLegStops(
+      { boardSequence: 4, alightSequence: 6 },
+      feed.stopTimesByTrip.get('Loop') ?? [],
+      stopById
+    )
+    expect(legStops.map(({ stop, stopTime }) => [stop.stop_id, stopTime.stop_sequence])).toEqual([
+      ['A', 4],
+      ['B', 5],
+      ['D', 6],
+    ])
+  })
+})
+
+describe('locateOnLeg', () => {
+  it('places the rider along the shape', () => {
+    const progress = locateOnLeg(wholeLine, shape, stopB.lat - 0.0018, stopB.lon)
+    expect(progress?.nextIndex).toBe(1)
+    expect(progress?.offsetKm).toBeCloseTo(0, 3)
+  })
+
+  it('counts a stop as passed once the rider reaches it', () => {
+    expect(locateOnLeg(wholeLine, shape, stopB.lat, stopB.lon)?.nextIndex).toBe(2)
+  })
+
+  it('falls back to the stop after the nearest one without a snapped shape', () => {
+    const progress = locateOnLeg(wholeLineWithoutShape, shape, stopB.lat - 0.0018, stopB.lon)
+    expect(progress?.nextIndex).toBe(2)
+    expect(progress?.offsetKm).toBeCloseTo(0.2, 1)
+  })
+
+  it('returns null more than 0.5 km from the leg', () => {
+    const lon = stopB.lon + 0.01
+    expect(locateOnLeg(wholeLine, shape, stopB.lat, lon)).toBeNull()
+    expect(locateOnLeg(wholeLineWithoutShape, undefined, stopB.lat, lon)).toBeNull()
+  })
+
+  it('points at the last stop between the last two stops and past it at the end', () => {
+    const lastIndex = wholeLine.length - 1
+    expect(locateOnLeg(wholeLine, shape, stopD.lat - 0.0018, stopD.lon)?.nextIndex).toBe(lastIndex)
+    expect(locateOnLeg(wholeLine, shape, stopD.lat, stopD.lon)?.nextIndex).toBe(wholeLine.length)
+  })
+})
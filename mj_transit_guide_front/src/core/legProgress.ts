@@ -0,0 +1,68 @@
+import { haversineDistanceKm } from './geometry'
+import type { ShapePoint } from './gtfsFeed'
+import { projectOntoShape, sliceShape } from './shapes'
+import type { CandidateTrip, Stop, StopTime } from './types'
+
+// A rider further than this from the leg is not treated as being on the bus.
+const maxOffLegKm = 0.5
+// A stop counts as reached once the rider is this close to it along the route.
+const atStopKm = 0.05
+
+export type LegStop = {
+  stopTime: StopTime
+  stop: Stop
+}
+
+export type LegProgress = {
+  // Index in the leg's stops of the next stop the bus reaches; the stop count when past the end.
+  nextIndex: number
+  offsetKm: number
+}
+
+// Every stop the bus calls at from boarding to alighting, both included.
+export const getLegStops = (
+  leg: Pick<CandidateTrip, 'boardSequence' | 'alightSequence'>,
+  stopTimes: StopTime[],
+  stopById: Map<string, Stop>
+): LegStop[] =>
+  stopTimes.flatMap((stopTime) => {
+    if (stopTime.stop_sequence < leg.boardSequence) return []
+    if (stopTime.stop_sequence > leg.alightSequence) return []
+    const stop = stopById.get(stopTime.stop_id)
+    return stop ? [{ stopTime, stop }] : []
+  })
+
+// Places the rider along the leg: on the leg's slice of the shape when the stops are snapped to
+// one, otherwise at the nearest stop. Returns null when the rider is nowhere near the leg.
+export const locateOnLeg = (
+  legStops: LegStop[],
+  shape: ShapePoint[] | undefined,
+  lat: number,
+  lon: number
+): LegProgress | null => {
+  if (legStops.length === 0) return null
+  const distances = legStops.map(({ stopTime }) => stopTime.shape_dist_traveled)
+  const fromKm = distances[0]
+  const toKm = distances[distances.length - 1]
+  const slice =
+    shape && fromKm !== null && toKm !== null && distances.every((km) => km !== null)
+      ? sliceShape(shape, fromKm, toKm)
+      : []
+
+  if (fromKm !== null && slice.length >= 2) {
+    const [projection] = projectOntoShape([{ lat, lon }], slice)
+    if (projection.offsetKm > maxOffLegKm) return null
+    const distanceKm = fromKm + projection.distanceKm
+    const nextIndex = distances.findIndex((km) => (km ?? 0) - atStopKm > distanceKm)
+    return {
+      nextIndex: nextIndex === -1 ? legStops.length : nextIndex,
+      offsetKm: projection.offsetKm,
+    }
+  }
+
+  const nearest = legStops
+    .map(({ stop }, index) => ({ index, offsetKm: haversineDistanceKm(stop, lat, lon) }))
+    .sort((a, b) => a.offsetKm - b.offsetKm)[0]
+  if (nearest.offsetKm > maxOffLegKm) return null
+  return { nextIndex: nearest.index + 1, offsetKm: nearest.offsetKm }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { readPlanLink, writePlanLink, type PlanLink } from './planLink'
+
+const link: PlanLink = {
+  from: { kind: 'stop', stopId: '1042' },
+  to: { kind: 'location', label: '228 Main St N', lat: 50.393, lng: -105.535 },
+  mode: 'arrive',
+  date: '2026-10-19',
+  time: '08:30',
+  walkMeters: 600,
+  walkingSpeedKmh: 4.5,
+  wheelchairAccessible: true,
+  bikesOnBoard: false,
+}
+
+describe('plan links', () => {
+  it('round-trips a stop and a pinned location', () => {
+    const search = writePlanLink('', link)
+    expect(new URLSearchParams(search).get('from')).toBe('stop:1042')
+    expect(new URLSearchParams(search).get('to')).toBe('50.393000,-105.535000')
+    expect(readPlanLink(search)).toEqual(link)
+  })
+
+  it('leaves out the date and time when leaving now', () => {
+    const search = writePlanLink('', { ...link, mode: 'now' })
+    const params = new URLSearchParams(search)
+    expect(params.has('mode')).toBe(false)
+    expect(params.has('date')).toBe(false)
+    expect(params.has('time')).toBe(false)
+    expect(readPlanLink(search)).toMatchObject({ mode: 'now', date: null, time: null })
+  })
+
+  it('ignores places, numbers, dates and times it cannot read', () => {
+    expect(
+      readPlanLink('from=stop:&to=abc,1&toName=Home&walk=&pace=fast&date=19/10/2026&time=8:30')
+    ).toMatchObject({
+      from: null,
+      to: null,
+      mode: 'now',
+      date: null,
+      time: null,
+      walkMeters: null,
+      walkingSpeedKmh: null,
+    })
+  })
+
+  it('labels a location without a name as a pinned location', () => {
+    expect(readPlanLink('to=50.4,-105.54').to).toEqual({
+      kind: 'location',
+      label: 'Pinned location',
+      lat: 50.4,
+      lng: -105.54,
+    })
+  })
+
+  it('replaces the old plan and keeps other parameters such as the departure board stop', () => {
+    const search = writePlanLink('stop=1042&toName=Old&wheelchair=1', {
+      ...link,
+      to: null,
+      wheelchairAccessible: false,
+    })
+    const params = new URLSearchParams(search)
+    expect(params.get('stop')).toBe('1042')
+    expect(params.has('toName')).toBe(false)
+    expect(params.has('wheelchair')).toBe(false)
+    expect(readPlanLink(search).from).toEqual(link.from)
+  })
+})
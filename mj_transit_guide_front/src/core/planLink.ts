@@ -0,0 +1,107 @@
+import type { TripTimeMode } from './planner'
+
+// A trip plan as it appears in the page URL, so a plan survives a reload and can be shared.
+// Stops are linked by id; any other place is linked by its coordinates and label.
+export type PlanLinkPlace =
+  | { kind: 'stop'; stopId: string }
+  | { kind: 'location'; label: string; lat: number; lng: number }
+
+export type PlanLink = {
+  from: PlanLinkPlace | null
+  to: PlanLinkPlace | null
+  mode: TripTimeMode
+  // YYYY-MM-DD and HH:MM, as used by the date and time inputs; ignored when mode is 'now'.
+  date: string | null
+  time: string | null
+  walkMeters: number | null
+  walkingSpeedKmh: number | null
+  wheelchairAccessible: boolean
+  bikesOnBoard: boolean
+}
+
+const planLinkParams = [
+  'from',
+  'fromName',
+  'to',
+  'toName',
+  'mode',
+  'date',
+  'time',
+  'walk',
+  'pace',
+  'wheelchair',
+  'bikes',
+]
+
+const stopPrefix = 'stop:'
+
+const readPlace = (value: string | null, label: string | null): PlanLinkPlace | null => {
+  if (!value) return null
+  if (value.startsWith(stopPrefix)) {
+    const stopId = value.slice(stopPrefix.length)
+    return stopId ? { kind: 'stop', stopId } : null
+  }
+  const [lat, lng] = value.split(',').map(Number)
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null
+  return { kind: 'location', label: label || 'Pinned location', lat, lng }
+}
+
+const writePlace = (params: URLSearchParams, key: 'from' | 'to', place: PlanLinkPlace | null) => {
+  if (!place) return
+  if (place.kind === 'stop') {
+    params.set(key, `${stopPrefix}${place.stopId}`)
+    return
+  }
+  params.set(key, `${place.lat.toFixed(6)},${place.lng.toFixed(6)}`)
+  params.set(`${key}Name`, place.label)
+}
+
+const readNumber = (value: string | null) => {
+  if (value === null) return null
+  const number = Number(value)
+  return value !== '' && Number.isFinite(number) ? number : null
+}
+
+export const readPlanLink = (search: string): PlanLink => {
+  const params = new URLSearchParams(search)
+  const mode = params.get('mode')
+  const date = params.get('date')
+  const time = params.get('time')
+  return {
+    from: readPlace(params.get('from'), params.get('fromName')),
+    to: readPlace(params.get('to'), params.get('toName')),
+    mode: mode === 'depart' || mode === 'arrive' ? mode : 'now',
+    date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+    time: time && /^\d{2}:\d{2}$/.test(time) ? time : null,
+    walkMeters: readNumber(params.get('walk')),
+    walkingSpeedKmh: readNumber(params.get('pace')),
+    wheelchairAccessible: params.get('wheelchair') === '1',
+    bikesOnBoard: params.get('bikes') === '1',
+  }
+}
+
+// Replaces the plan parameters in a query string and keeps everything else, such as the
+// departure board's stop.
+export const writePlanLink = (search: string, link: PlanLink) => {
+  const params = new URLSearchParams(search)
+  planLinkParams.forEach((name) => params.delete(name))
+  writePlace(params, 'from', link.from)
+  writePlace(params, 'to', link.to)
+  if (link.mode !== 'now') {
+    params.set('mode', link.mode)
+    if (link.date) params.set('date', link.date)
+    if (link.time) params.set('time', link.time)
+  }
+  if (link.walkMeters !== null) params.set('walk', String(link.walkMeters))
+  if (link.walkingSpeedKmh !== null) params.set('pace', String(link.walkingSpeedKmh))
+  if (link.wheelchairAccessible) params.set('wheelchair', '1')
+  if (link.bikesOnBoard) params.set('bikes', '1')
+  return params.toString()
+}
+
+export const isSamePlanLinkPlace = (a: PlanLinkPlace | null, b: PlanLinkPlace | null) => {
+  if (!a || !b) return a === b
+  if (a.kind === 'stop') return b.kind === 'stop' && a.stopId === b.stopId
+  if (b.kind === 'stop') return false
+  return a.lat.toFixed(6) === b.lat.toFixed(6) && a.lng.toFixed(6) === b.lng.toFixed(6)
+}
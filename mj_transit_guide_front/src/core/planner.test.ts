@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import { buildGtfsFiles, lineOfStops, loadBundledFeedFiles } from '../test/gtfsFixtures'
+import { parseGtfsFeed, type GtfsFeed } from './gtfsFeed'
+import {
+  createNetworkForDay,
+  getServiceDay,
+  planTrip,
+  type PlanRequest,
+  type TripTimeMode,
+} from './planner'
+import { defaultPlannerOptions } from './raptor'
+
+const plan = (
+  feed: GtfsFeed,
+  from: string,
+  to: string,
+  serviceDate: string,
+  minutes: number,
+  mode: TripTimeMode = 'depart'
+) => {
+  const stopById = new Map(feed.stops.map((stop) => [stop.stop_id, stop]))
+  const request: PlanRequest = {
+    origin: stopById.get(from)!,
+    destination: stopById.get(to)!,
+    originAccess: [],
+    destinationAccess: [],
+    mode,
+    serviceDate,
+    minutes,
+  }
+  return planTrip(
+    feed,
+    createNetworkForDay(feed, defaultPlannerOptions),
+    request,
+    defaultPlannerOptions
+  )
+}
+
+const itineraryOf = (outcome: ReturnType<typeof plan>) => {
+  if (outcome.kind !== 'itinerary') throw new Error(`Expected an itinerary, got ${outcome.kind}`)
+  return outcome.itinerary
+}
+
+// Monday 19 October 2026 and the days around it.
+const monday = '20261019'
+const tuesday = '20261020'
+const saturday = '20261024'
+const nextMonday = '20261026'
+
+describe('getServiceDay', () => {
+  const feed = parseGtfsFeed(loadBundledFeedFiles())
+
+  it('lists the trips that run on a weekday', () => {
+    const day = getServiceDay(feed, monday)
+    expect(day.serviceIds.size).toBeGreaterThan(0)
+    expect(day.trips.length).toBeGreaterThan(0)
+    expect(day.nextServiceDate).toBe(monday)
+  })
+
+  it('points a day without buses at the next service day', () => {
+    const day = getServiceDay(feed, saturday)
+    expect(day.trips).toEqual([])
+    expect(day.nextServiceDate).toBe(nextMonday)
+  })
+})
+
+describe('planTrip on the bundled feed', () => {
+  const feed = parseGtfsFeed(loadBundledFeedFiles())
+  const stopTimes = feed.stopTimesByTrip.get('1MT_0715') ?? []
+  const from = stopTimes[2].stop_id
+  const to = stopTimes[8].stop_id
+
+  it('finds a direct ride on route 1', () => {
+    const itinerary = itineraryOf(plan(feed, from, to, monday, 7 * 60))
+    expect(itinerary.serviceDate).toBe(monday)
+    expect(itinerary.legs).toHaveLength(1)
+    expect(itinerary.legs[0].route?.route_short_name).toBe('1')
+    expect(itinerary.departureMinutes).toBeGreaterThanOrEqual(7 * 60)
+  })
+
+  it('moves a weekend request to Monday morning', () => {
+    const itinerary = itineraryOf(plan(feed, from, to, saturday, 10 * 60))
+    expect(itinerary.serviceDate).toBe(nextMonday)
+    expect(itinerary.requestedMinutes).toBe(0)
+  })
+})
+
+describe('planTrip on synthetic feeds', () => {
+  const stops = lineOfStops(['A', 'B', 'C', 'D'])
+
+  it('transfers between routes at a shared stop', () => {
+    const feed = parseGtfsFeed(
+      buildGtfsFiles({
+        stops,
+        trips: [
+          { id: 'R1-1', route: 'R1', stopTimes: [['A', '08:00:00'], ['B', '08:10:00']] },
+          { id: 'R2-1', route: 'R2', stopTimes: [['B', '08:15:00'], ['C', '08:25:00']] },
+        ],
+      })
+    )
+    const itinerary = itineraryOf(plan(feed, 'A', 'C', monday, 7 * 60 + 50))
+    expect(itinerary.legs.map((leg) => leg.trip.trip_id)).toEqual(['R1-1', 'R2-1'])
+    expect(itinerary.transfers).toHaveLength(1)
+    expect(itinerary.transfers[0].layoverMinutes).toBe(5)
+  })
+
+  it('reports no service when the calendar has no days left', () => {
+    const feed = parseGtfsFeed(
+      buildGtfsFiles({
+        stops,
+        trips: [{ id: 'T', route: 'R', stopTimes: [['A', '08:00:00'], ['B', '08:10:00']] }],
+        service: { days: '1111100', start: '20260101', end: '20260131' },
+      })
+    )
+    expect(plan(feed, 'A', 'B', monday, 7 * 60)).toEqual({
+      kind: 'no-service',
+      nextServiceDate: null,
+    })
+  })
+
+  it('reports no trips when no route links the stops', () => {
+    const feed = parseGtfsFeed(
+      buildGtfsFiles({
+        stops,
+        trips: [
+          { id: 'T', route: 'R', stopTimes: [['A', '08:00:00'], ['B', '08:10:00']] },
+          { id: 'U', route: 'R', stopTimes: [['C', '08:00:00'], ['D', '08:10:00']] },
+        ],
+      })
+    )
+    expect(plan(feed, 'A', 'D', monday, 7 * 60).kind).toBe('no-trips')
+    expect(plan(feed, 'A', 'A', monday, 7 * 60).kind).toBe('same-stop')
+  })
+
+  it('shows the next morning once there are no more departures today', () => {
+    const feed = parseGtfsFeed(
+      buildGtfsFiles({
+        stops,
+        trips: [
+          { id: 'Morning', route: 'R', stopTimes: [['A', '07:00:00'], ['B', '07:10:00']] },
+          { id: 'Evening', route: 'R', stopTimes: [['A', '18:00:00'], ['B', '18:10:00']] },
+        ],
+      })
+    )
+    const outcome = plan(feed, 'A', 'B', monday, 20 * 60)
+    const itinerary = itineraryOf(outcome)
+    expect(itinerary.serviceDate).toBe(tuesday)
+    expect(itinerary.legs[0].trip.trip_id).toBe('Morning')
+    expect(outcome.kind === 'itinerary' && outcome.alternatives[0].serviceDate).toBe(tuesday)
+  })
+
+  it('catches a trip from the day before that runs past midnight', () => {
+    const feed = parseGtfsFeed(
+      buildGtfsFiles({
+        stops,
+        trips: [
+          { id: 'Late', route: 'R', stopTimes: [['A', '24:40:00'], ['B', '24:50:00']] },
+          { id: 'Morning', route: 'R', stopTimes: [['A', '07:00:00'], ['B', '07:10:00']] },
+        ],
+      })
+    )
+    const itinerary = itineraryOf(plan(feed, 'A', 'B', tuesday, 30))
+    expect(itinerary.serviceDate).toBe(monday)
+    expect(itinerary.requestedMinutes).toBe(24 * 60 + 30)
+    expect(itinerary.legs[0].trip.trip_id).toBe('Late')
+    expect(itinerary.departureMinutes).toBe(24 * 60 + 40)
+  })
+
+  it('plans arrive-by requests on the requested day only', () => {
+    const feed = parseGtfsFeed(
+      buildGtfsFiles({
+        stops,
+        trips: [{ id: 'T', route: 'R', stopTimes: [['A', '08:00:00'], ['B', '08:10:00']] }],
+        service: { days: '1111100', start: '20260101', end: '20261231' },
+      })
+    )
+    expect(itineraryOf(plan(feed, 'A', 'B', monday, 9 * 60, 'arrive')).serviceDate).toBe(monday)
+    expect(plan(feed, 'A', 'B', saturday, 9 * 60, 'arrive')).toEqual({
+      kind: 'no-service',
+      nextServiceDate: nextMonday,
+    })
+    expect(plan(feed, 'A', 'B', monday, 8 * 60, 'arrive').kind).toBe('no-trips')
+  })
+})
@@ -0,0 +1,201 @@
+import { addServiceDays, findNextServiceDate, getActiveServiceIds } from './calendar'
+import type { GtfsFeed } from './gtfsFeed'
+import {
+  buildPlannerNetwork,
+  planArriveBy,
+  planDepartures,
+  type AccessPoint,
+  type Itinerary,
+  type PlannerNetwork,
+  type PlannerOptions,
+  type PlannerQuery,
+} from './raptor'
+import type { Stop, Trip } from './types'
+
+export type TripTimeMode = 'now' | 'depart' | 'arrive'
+
+export type ServiceDay = {
+  serviceDate: string
+  serviceIds: Set<string>
+  trips: Trip[]
+  // The service date itself when it has buses, otherwise the next day that does.
+  nextServiceDate: string | null
+}
+
+export type PlanRequest = {
+  origin: Stop
+  destination: Stop
+  // Stops within walking distance of the rider's address; the chosen stop is used when empty.
+  originAccess: AccessPoint[]
+  destinationAccess: AccessPoint[]
+  mode: TripTimeMode
+  // The requested instant. Minutes count from the service day's start, as GTFS times do.
+  serviceDate: string
+  minutes: number
+}
+
+// Times on an itinerary count from the start of its own service day, which may be the day
+// before the request (a trip running past midnight) or a later day.
+export type PlannedItinerary = Itinerary & {
+  serviceDate: string
+  // The requested time on that service day: past 24:00 for the day before, 0 for later days.
+  requestedMinutes: number
+}
+
+export type PlanOutcome =
+  | { kind: 'same-stop' }
+  | { kind: 'no-service'; nextServiceDate: string | null }
+  | { kind: 'no-trips' }
+  | { kind: 'itinerary'; itinerary: PlannedItinerary; alternatives: PlannedItinerary[] }
+
+export type NetworkForDay = (serviceDay: ServiceDay) => PlannerNetwork
+
+export const defaultMaxItineraries = 5
+// How many days ahead a departure search looks for the next bus.
+const maxSearchDays = 8
+
+export const getServiceDay = (
+  feed: Pick<GtfsFeed, 'trips' | 'calendars' | 'calendarExceptions'>,
+  serviceDate: string
+): ServiceDay => {
+  const serviceIds = getActiveServiceIds(feed.calendars, feed.calendarExceptions, serviceDate)
+  return {
+    serviceDate,
+    serviceIds,
+    trips: feed.trips.filter((trip) => serviceIds.has(trip.service_id)),
+    nextServiceDate:
+      serviceIds.size > 0
+        ? serviceDate
+        : findNextServiceDate(feed.calendars, feed.calendarExceptions, serviceDate),
+  }
+}
+
+// Networks are built on demand and shared by days that run the same services. Canceled trips
+// only apply to the service date they were reported for.
+export const createNetworkForDay = (
+  feed: Pick<GtfsFeed, 'stops' | 'routes' | 'stopTimesByTrip'>,
+  options: PlannerOptions,
+  canceled: { serviceDate: string; tripIds: Set<string> } | null = null
+): NetworkForDay => {
+  const cache = new Map<string, PlannerNetwork>()
+  return (serviceDay) => {
+    const canceledTripIds =
+      canceled?.serviceDate === serviceDay.serviceDate ? canceled.tripIds : null
+    const key = `${[...serviceDay.serviceIds].sort().join('|')}${
+      canceledTripIds ? `@${serviceDay.serviceDate}` : ''
+    }`
+    const cached = cache.get(key)
+    if (cached) return cached
+    const network = buildPlannerNetwork(
+      feed.stops,
+      feed.routes,
+      canceledTripIds
+        ? serviceDay.trips.filter((trip) => !canceledTripIds.has(trip.trip_id))
+        : serviceDay.trips,
+      feed.stopTimesByTrip,
+      options
+    )
+    cache.set(key, network)
+    return network
+  }
+}
+
+export const searchItineraries = (
+  network: PlannerNetwork,
+  query: Omit<PlannerQuery, 'departureMinutes'>,
+  mode: TripTimeMode,
+  minutes: number,
+  options: PlannerOptions,
+  maxResults = defaultMaxItineraries
+) =>
+  mode === 'arrive'
+    ? planArriveBy(network, query, minutes, maxResults, options)
+    : planDepartures(network, { ...query, departureMinutes: minutes }, maxResults, options)
+
+// Departures are searched from the day before, for trips still running past midnight, and then
+// forward day by day until a day has trips. One more service day is searched after that so
+// late-evening requests still get a choice of trips.
+const searchForward = (
+  feed: Pick<GtfsFeed, 'trips' | 'calendars' | 'calendarExceptions'>,
+  networkForDay: NetworkForDay,
+  query: Omit<PlannerQuery, 'departureMinutes'>,
+  request: PlanRequest,
+  options: PlannerOptions,
+  maxResults: number
+) => {
+  const found: Array<{ itinerary: PlannedItinerary; departsAt: number }> = []
+  let serviceDaysLeft: number | null = null
+  for (let offset = -1; offset <= maxSearchDays; offset += 1) {
+    if (found.length >= maxResults || serviceDaysLeft === 0) break
+    const serviceDay = getServiceDay(feed, addServiceDays(request.serviceDate, offset))
+    if (serviceDay.trips.length === 0) continue
+    if (serviceDaysLeft !== null) serviceDaysLeft -= 1
+    const requestedMinutes = Math.max(0, request.minutes - offset * 1440)
+    const itineraries = planDepartures(
+      networkForDay(serviceDay),
+      { ...query, departureMinutes: requestedMinutes },
+      maxResults,
+      options
+    )
+    if (itineraries.length === 0) continue
+    serviceDaysLeft ??= 1
+    itineraries.forEach((itinerary) =>
+      found.push({
+        itinerary: { ...itinerary, serviceDate: serviceDay.serviceDate, requestedMinutes },
+        departsAt: offset * 1440 + itinerary.departureMinutes,
+      })
+    )
+  }
+  return found
+    .sort((a, b) => a.departsAt - b.departsAt)
+    .slice(0, maxResults)
+    .map(({ itinerary }) => itinerary)
+}
+
+export const planTrip = (
+  feed: Pick<GtfsFeed, 'trips' | 'calendars' | 'calendarExceptions'>,
+  networkForDay: NetworkForDay,
+  request: PlanRequest,
+  options: PlannerOptions,
+  maxResults = defaultMaxItineraries
+): PlanOutcome => {
+  if (request.origin.stop_id === request.destination.stop_id) return { kind: 'same-stop' }
+  const serviceDay = getServiceDay(feed, request.serviceDate)
+  const query = {
+    origins:
+      request.originAccess.length > 0
+        ? request.originAccess
+        : [{ stop: request.origin, walkDistanceKm: 0 }],
+    destinations:
+      request.destinationAccess.length > 0
+        ? request.destinationAccess
+        : [{ stop: request.destination, walkDistanceKm: 0 }],
+  }
+  const noService = (): PlanOutcome => ({
+    kind: 'no-service',
+    nextServiceDate:
+      serviceDay.nextServiceDate === serviceDay.serviceDate ? null : serviceDay.nextServiceDate,
+  })
+
+  let itineraries: PlannedItinerary[]
+  if (request.mode === 'arrive') {
+    if (serviceDay.trips.length === 0) return noService()
+    itineraries = planArriveBy(
+      networkForDay(serviceDay),
+      query,
+      request.minutes,
+      maxResults,
+      options
+    ).map((itinerary) => ({
+      ...itinerary,
+      serviceDate: serviceDay.serviceDate,
+      requestedMinutes: request.minutes,
+    }))
+  } else {
+    itineraries = searchForward(feed, networkForDay, query, request, options, maxResults)
+    if (itineraries.length === 0 && serviceDay.trips.length === 0) return noService()
+  }
+  const [itinerary, ...alternatives] = itineraries
+  if (!itinerary) return { kind: 'no-trips' }
+  return { kind: 'itinerary', itinerary, alternatives }
+}
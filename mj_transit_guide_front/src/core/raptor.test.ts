@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest'
+import { buildGtfsFiles, lineOfStops } from '../test/gtfsFixtures'
+import { parseGtfsFeed, type GtfsFeed } from './gtfsFeed'
+import {
+  buildPlannerNetwork,
+  defaultPlannerOptions,
+  findAccessPoints,
+  planArriveBy,
+  planEarliestArrival,
+} from './raptor'
+
+const buildNetwork = (feed: GtfsFeed) =>
+  buildPlannerNetwork(feed.stops, feed.routes, feed.trips, feed.stopTimesByTrip)
+
+const accessAt = (feed: GtfsFeed, stopId: string) => {
+  const stop = feed.stops.find((item) => item.stop_id === stopId)
+  if (!stop) throw new Error(`No stop ${stopId}`)
+  return [{ stop, walkDistanceKm: 0 }]
+}
+
+describe('planArriveBy', () => {
+  const feed = parseGtfsFeed(
+    buildGtfsFiles({
+      stops: lineOfStops(['A', 'B']),
+      trips: ['08:00', '09:00', '10:00'].map((time, index) => ({
+        id: `T${index}`,
+        route: 'R',
+        stopTimes: [
+          ['A', `${time}:00`],
+          ['B', `${time.slice(0, 2)}:20:00`],
+        ],
+      })),
+    })
+  )
+  const query = { origins: accessAt(feed, 'A'), destinations: accessAt(feed, 'B') }
+
+  it('lists the latest departures that still arrive in time first', () => {
+    const itineraries = planArriveBy(buildNetwork(feed), query, 9 * 60 + 30, 5)
+    expect(itineraries.map((itinerary) => itinerary.legs[0].trip.trip_id)).toEqual(['T1', 'T0'])
+    expect(itineraries.every((itinerary) => itinerary.arrivalMinutes <= 9 * 60 + 30)).toBe(true)
+  })
+
+  it('limits the number of results', () => {
+    expect(planArriveBy(buildNetwork(feed), query, 12 * 60, 1, defaultPlannerOptions)).toHaveLength(
+      1
+    )
+  })
+
+  it('finds nothing when every bus arrives too late', () => {
+    expect(planArriveBy(buildNetwork(feed), query, 8 * 60 + 10, 5)).toEqual([])
+  })
+
+  it('only tries departures within three hours of the deadline', () => {
+    const itineraries = planArriveBy(buildNetwork(feed), query, 11 * 60 + 30, 5)
+    expect(itineraries.map((itinerary) => itinerary.legs[0].trip.trip_id)).toEqual(['T2', 'T1'])
+  })
+})
+
+describe('planEarliestArrival on a loop trip', () => {
+  // The trip passes A and B twice: A, B, C, A, B, D.
+  const feed = parseGtfsFeed(
+    buildGtfsFiles({
+      stops: lineOfStops(['A', 'B', 'C', 'D']),
+      trips: [
+        {
+          id: 'Loop',
+          route: 'R',
+          stopTimes: [
+            ['A', '08:00:00'],
+            ['B', '08:10:00'],
+            ['C', '08:20:00'],
+            ['A', '08:30:00'],
+            ['B', '08:40:00'],
+            ['D', '08:50:00'],
+          ],
+        },
+      ],
+    })
+  )
+  const plan = (departureMinutes: number) =>
+    planEarliestArrival(buildNetwork(feed), {
+      origins: accessAt(feed, 'A'),
+      destinations: accessAt(feed, 'D'),
+      departureMinutes,
+    })
+
+  it('boards at the later visit of the origin', () => {
+    const [itinerary] = plan(7 * 60 + 55)
+    expect(itinerary.legs[0]).toMatchObject({
+      boardSequence: 4,
+      alightSequence: 6,
+      boardTime: '08:30:00',
+    })
+  })
+
+  it('still boards the later visit after the first pass has left', () => {
+    const [itinerary] = plan(8 * 60 + 10)
+    expect(itinerary.legs[0]).toMatchObject({ boardSequence: 4, alightSequence: 6 })
+    expect(itinerary.departureMinutes).toBe(8 * 60 + 30)
+  })
+})
+
+describe('planEarliestArrival trade-offs', () => {
+  const feed = parseGtfsFeed(
+    buildGtfsFiles({
+      stops: lineOfStops(['A', 'B', 'C']),
+      trips: [
+        {
+          id: 'T',
+          route: 'R',
+          stopTimes: [
+            ['A', '08:00:00'],
+            ['B', '08:10:00'],
+            ['C', '08:20:00'],
+          ],
+        },
+      ],
+    })
+  )
+
+  it('keeps a later arrival with less walking next to the earliest arrival', () => {
+    const [stopB] = accessAt(feed, 'B')
+    const [stopC] = accessAt(feed, 'C')
+    const itineraries = planEarliestArrival(buildNetwork(feed), {
+      origins: accessAt(feed, 'A'),
+      destinations: [
+        { stop: stopB.stop, walkDistanceKm: 0.4 },
+        { stop: stopC.stop, walkDistanceKm: 0 },
+      ],
+      departureMinutes: 7 * 60 + 50,
+    })
+    expect(
+      itineraries.map((itinerary) => [itinerary.egress.stop.stop_id, itinerary.arrivalMinutes])
+    ).toEqual([
+      ['B', 8 * 60 + 15],
+      ['C', 8 * 60 + 20],
+    ])
+  })
+})
+
+describe('wheelchair access', () => {
+  const options = { ...defaultPlannerOptions, wheelchairAccessible: true }
+  const origin = { lat: 50.39, lon: -105.55 }
+  // U is 100 m from the origin with no access information, L is 200 m away with level boarding.
+  const files = buildGtfsFiles({
+    stops: [
+      { id: 'U', lat: origin.lat + 0.0009, lon: origin.lon },
+      { id: 'L', lat: origin.lat - 0.0018, lon: origin.lon },
+      { id: 'D', lat: 50.4, lon: origin.lon },
+      { id: 'E', lat: 50.38, lon: origin.lon },
+    ],
+    trips: [
+      { id: 'UD', route: 'R1', stopTimes: [['U', '08:00:00'], ['D', '08:10:00']] },
+      { id: 'LE', route: 'R2', stopTimes: [['L', '08:00:00'], ['E', '08:10:00']] },
+      { id: 'LD', route: 'R3', stopTimes: [['L', '08:00:00'], ['D', '08:10:00']] },
+    ],
+  })
+  const parsed = parseGtfsFeed(files)
+  const feed: GtfsFeed = {
+    ...parsed,
+    stops: parsed.stops.map((stop) => ({
+      ...stop,
+      wheelchair_boarding: stop.stop_id === 'U' ? 0 : 1,
+    })),
+    trips: parsed.trips.map((trip) => ({ ...trip, wheelchair_accessible: 1 })),
+  }
+  const plan = (tripIds: string[], planOptions = options) =>
+    planEarliestArrival(
+      buildPlannerNetwork(
+        feed.stops,
+        feed.routes,
+        feed.trips.filter((trip) => tripIds.includes(trip.trip_id)),
+        feed.stopTimesByTrip,
+        planOptions
+      ),
+      {
+        origins: findAccessPoints(feed.stops, origin.lat, origin.lon, planOptions),
+        destinations: accessAt(feed, 'D'),
+        departureMinutes: 7 * 60 + 50,
+      },
+      planOptions
+    )
+
+  it('still boards at stops without access information when level stops miss the destination', () => {
+    const [itinerary] = plan(['UD', 'LE'])
+    expect(itinerary.legs[0].boardStop.stop_id).toBe('U')
+  })
+
+  it('ranks stops with level boarding ahead of a shorter walk', () => {
+    expect(plan(['UD', 'LD'])[0].legs[0].boardStop.stop_id).toBe('L')
+    expect(plan(['UD', 'LD'], defaultPlannerOptions)[0].legs[0].boardStop.stop_id).toBe('U')
+  })
+})
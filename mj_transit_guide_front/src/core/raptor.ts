@@ -0,0 +1,549 @@
+import { haversineDistanceKm } from './geometry'
+import { timeToMinutes } from './time'
+import type { CandidateTrip, Route, Stop, StopTime, Trip } from './types'
+
+export type PlannerOptions = {
+  maxTransfers: number
+  minTransferMinutes: number
+  maxWalkTransferKm: number
+  maxAccessWalkKm: number
+  walkingSpeedKmh: number
+  wheelchairAccessible: boolean
+  bikesOnBoard: boolean
+}
+
+export const defaultPlannerOptions: PlannerOptions = {
+  maxTransfers: 2,
+  minTransferMinutes: 2,
+  maxWalkTransferKm: 0.3,
+  maxAccessWalkKm: 0.5,
+  walkingSpeedKmh: 4.8,
+  wheelchairAccessible: false,
+  bikesOnBoard: false,
+}
+
+export type AccessPoint = {
+  stop: Stop
+  walkDistanceKm: number
+}
+
+export type PlannerQuery = {
+  origins: AccessPoint[]
+  destinations: AccessPoint[]
+  departureMinutes: number
+}
+
+export type TransferStep = {
+  fromStop: Stop
+  toStop: Stop
+  walkDistanceKm: number
+  walkMinutes: number
+  layoverMinutes: number
+}
+
+export type Itinerary = {
+  legs: CandidateTrip[]
+  transfers: TransferStep[]
+  access: AccessPoint
+  egress: AccessPoint
+  departureMinutes: number
+  arrivalMinutes: number
+  totalMinutes: number
+  walkDistanceKm: number
+}
+
+type Footpath = {
+  toStopId: string
+  distanceKm: number
+}
+
+type TimedStopTime = {
+  stopTime: StopTime
+  arrival: number
+  departure: number
+}
+
+export type PlannerNetwork = {
+  stopById: Map<string, Stop>
+  routeById: Map<string, Route>
+  tripsByStop: Map<string, Trip[]>
+  timesByTrip: Map<string, TimedStopTime[]>
+  footpaths: Map<string, Footpath[]>
+  // Stops the rider cannot board or alight at under the current options.
+  blockedStopIds: Set<string>
+}
+
+// penalty ranks labels without changing when the rider gets anywhere; see accessPenaltyKm.
+type AccessLabel = {
+  kind: 'access'
+  round: number
+  arrival: number
+  penalty: number
+  access: AccessPoint
+}
+
+type RideLabel = {
+  kind: 'ride'
+  round: number
+  arrival: number
+  penalty: number
+  trip: Trip
+  boardIndex: number
+  alightIndex: number
+}
+
+type WalkLabel = {
+  kind: 'walk'
+  round: number
+  arrival: number
+  penalty: number
+  from: RideLabel
+  fromStopId: string
+  distanceKm: number
+}
+
+type Label = AccessLabel | RideLabel | WalkLabel
+
+type Step =
+  | { kind: 'ride'; label: RideLabel }
+  | { kind: 'walk'; fromStopId: string; toStopId: string; distanceKm: number }
+
+// Trips must confirm access; stops are only ruled out when marked inaccessible, since most
+// feeds leave stop information blank.
+export const isTripUsable = (trip: Trip, options: PlannerOptions) =>
+  (!options.wheelchairAccessible || trip.wheelchair_accessible === 1) &&
+  (!options.bikesOnBoard || trip.bikes_allowed === 1)
+
+export const isStopUsable = (stop: Stop, options: PlannerOptions) =>
+  !options.wheelchairAccessible || stop.wheelchair_boarding !== 2
+
+const maxRangeIterations = 60
+const rangeStepMinutes = 0.01
+// Arrive-by runs one search per candidate departure, so only departures this close to the
+// deadline are tried, and at most maxArriveBySearches of them.
+const arriveByWindowMinutes = 180
+const maxArriveBySearches = 40
+
+export const buildPlannerNetwork = (
+  stops: Stop[],
+  routes: Route[],
+  trips: Trip[],
+  stopTimesByTrip: Map<string, StopTime[]>,
+  options: PlannerOptions = defaultPlannerOptions
+): PlannerNetwork => {
+  const stopById = new Map(stops.map((stop) => [stop.stop_id, stop]))
+  const routeById = new Map(routes.map((route) => [route.route_id, route]))
+  const tripsByStop = new Map<string, Trip[]>()
+  const timesByTrip = new Map<string, TimedStopTime[]>()
+  const blockedStopIds = new Set(
+    stops.filter((stop) => !isStopUsable(stop, options)).map((stop) => stop.stop_id)
+  )
+
+  trips.forEach((trip) => {
+    const stopTimes = stopTimesByTrip.get(trip.trip_id)
+    if (!stopTimes || !isTripUsable(trip, options)) return
+    timesByTrip.set(
+      trip.trip_id,
+      stopTimes.map((stopTime) => ({
+        stopTime,
+        arrival: timeToMinutes(stopTime.arrival_time),
+        departure: timeToMinutes(stopTime.departure_time),
+      }))
+    )
+    new Set(stopTimes.map((stopTime) => stopTime.stop_id)).forEach((stopId) => {
+      if (blockedStopIds.has(stopId)) return
+      const list = tripsByStop.get(stopId) ?? []
+      list.push(trip)
+      tripsByStop.set(stopId, list)
+    })
+  })
+
+  const footpaths = new Map<string, Footpath[]>()
+  const usableStops = stops.filter((stop) => !blockedStopIds.has(stop.stop_id))
+  usableStops.forEach((from) => {
+    const list: Footpath[] = []
+    usableStops.forEach((to) => {
+      if (from.stop_id === to.stop_id) return
+      const distanceKm = haversineDistanceKm(from, to.stop_lat, to.stop_lon)
+      if (distanceKm <= options.maxWalkTransferKm) {
+        list.push({ toStopId: to.stop_id, distanceKm })
+      }
+    })
+    if (list.length > 0) footpaths.set(from.stop_id, list)
+  })
+
+  return { stopById, routeById, tripsByStop, timesByTrip, footpaths, blockedStopIds }
+}
+
+export const findAccessPoints = (
+  stops: Stop[],
+  lat: number,
+  lon: number,
+  options: PlannerOptions = defaultPlannerOptions
+): AccessPoint[] => {
+  const nearby = stops
+    .filter((stop) => isStopUsable(stop, options))
+    .map((stop) => ({ stop, walkDistanceKm: haversineDistanceKm(stop, lat, lon) }))
+    .sort((a, b) => a.walkDistanceKm - b.walkDistanceKm)
+  const withinRadius = nearby.filter((point) => point.walkDistanceKm <= options.maxAccessWalkKm)
+  return withinRadius.length > 0 ? withinRadius : nearby.slice(0, 1)
+}
+
+export const walkingMinutes = (distanceKm: number, options: PlannerOptions) =>
+  (distanceKm / options.walkingSpeedKmh) * 60
+
+// With wheelchair access on, starting or ending at a stop without confirmed level boarding
+// counts as this much extra walking, so level-access stops rank higher without ruling out the
+// rest.
+const unconfirmedStopPenaltyKm = 0.2
+
+const accessPenaltyKm = (stop: Stop, options: PlannerOptions) =>
+  options.wheelchairAccessible && stop.wheelchair_boarding !== 1 ? unconfirmedStopPenaltyKm : 0
+
+const readyTime = (label: Label, options: PlannerOptions) =>
+  label.kind === 'ride' ? label.arrival + options.minTransferMinutes : label.arrival
+
+const buildLeg = (
+  network: PlannerNetwork,
+  trip: Trip,
+  board: StopTime,
+  alight: StopTime
+): CandidateTrip | null => {
+  const boardStop = network.stopById.get(board.stop_id)
+  const alightStop = network.stopById.get(alight.stop_id)
+  if (!boardStop || !alightStop) return null
+  return {
+    trip,
+    route: network.routeById.get(trip.route_id),
+    boardStop,
+    alightStop,
+    boardTime: board.departure_time,
+    alightTime: alight.arrival_time,
+    boardSequence: board.stop_sequence,
+    alightSequence: alight.stop_sequence,
+    boardTimeEstimated: board.estimated,
+    alightTimeEstimated: alight.estimated,
+    boardShapeDistanceKm: board.shape_dist_traveled,
+    alightShapeDistanceKm: alight.shape_dist_traveled,
+    walkDistanceKm: null,
+  }
+}
+
+const reconstruct = (
+  network: PlannerNetwork,
+  rounds: Array<Map<string, Label>>,
+  round: number,
+  destination: AccessPoint,
+  options: PlannerOptions
+): Itinerary | null => {
+  const steps: Step[] = []
+  let stopId = destination.stop.stop_id
+  let label = rounds[round].get(stopId)
+  while (label && label.kind !== 'access') {
+    if (label.kind === 'walk') {
+      steps.unshift({
+        kind: 'walk',
+        fromStopId: label.fromStopId,
+        toStopId: stopId,
+        distanceKm: label.distanceKm,
+      })
+      stopId = label.fromStopId
+      label = label.from
+      continue
+    }
+    steps.unshift({ kind: 'ride', label })
+    const times = network.timesByTrip.get(label.trip.trip_id)
+    if (!times) return null
+    stopId = times[label.boardIndex].stopTime.stop_id
+    label = rounds[label.round - 1].get(stopId)
+  }
+  if (!label) return null
+  const { access } = label
+
+  const legs: CandidateTrip[] = []
+  const pendingWalks: Array<{ fromStopId: string; toStopId: string; distanceKm: number }> = []
+  const transfers: TransferStep[] = []
+  for (const step of steps) {
+    if (step.kind === 'walk') {
+      pendingWalks.push(step)
+      continue
+    }
+    const times = network.timesByTrip.get(step.label.trip.trip_id)
+    if (!times) return null
+    const leg = buildLeg(
+      network,
+      step.label.trip,
+      times[step.label.boardIndex].stopTime,
+      times[step.label.alightIndex].stopTime
+    )
+    if (!leg) return null
+    const previous = legs[legs.length - 1]
+    if (previous) {
+      const walkDistanceKm = pendingWalks.reduce((sum, walk) => sum + walk.distanceKm, 0)
+      const walkMinutes = walkingMinutes(walkDistanceKm, options)
+      transfers.push({
+        fromStop: previous.alightStop,
+        toStop: leg.boardStop,
+        walkDistanceKm,
+        walkMinutes,
+        layoverMinutes:
+          timeToMinutes(leg.boardTime) - timeToMinutes(previous.alightTime) - walkMinutes,
+      })
+    }
+    pendingWalks.length = 0
+    legs.push(leg)
+  }
+  if (legs.length === 0) return null
+
+  const lastLeg = legs[legs.length - 1]
+  lastLeg.walkDistanceKm = destination.walkDistanceKm
+  const departureMinutes =
+    timeToMinutes(legs[0].boardTime) - walkingMinutes(access.walkDistanceKm, options)
+  const arrivalMinutes =
+    timeToMinutes(lastLeg.alightTime) + walkingMinutes(destination.walkDistanceKm, options)
+  return {
+    legs,
+    transfers,
+    access,
+    egress: destination,
+    departureMinutes,
+    arrivalMinutes,
+    totalMinutes: arrivalMinutes - departureMinutes,
+    walkDistanceKm:
+      access.walkDistanceKm +
+      destination.walkDistanceKm +
+      transfers.reduce((sum, transfer) => sum + transfer.walkDistanceKm, 0),
+  }
+}
+
+const rankedWalkKm = (itinerary: Itinerary, options: PlannerOptions) =>
+  itinerary.walkDistanceKm +
+  accessPenaltyKm(itinerary.access.stop, options) +
+  accessPenaltyKm(itinerary.egress.stop, options)
+
+// Rounds keep one label per stop, pruned on arrival time, so walking between buses is never
+// traded for a later arrival. Walking to the destination is: every egress stop the rounds reach
+// becomes a candidate, and a later arrival with less walking stays on the front.
+const dominates = (a: Itinerary, b: Itinerary, options: PlannerOptions) => {
+  const walkA = rankedWalkKm(a, options)
+  const walkB = rankedWalkKm(b, options)
+  const noWorse =
+    a.arrivalMinutes <= b.arrivalMinutes &&
+    a.transfers.length <= b.transfers.length &&
+    walkA <= walkB
+  const better =
+    a.arrivalMinutes < b.arrivalMinutes ||
+    a.transfers.length < b.transfers.length ||
+    walkA < walkB
+  return noWorse && better
+}
+
+const compareItineraries = (a: Itinerary, b: Itinerary, options: PlannerOptions) => {
+  if (a.arrivalMinutes !== b.arrivalMinutes) return a.arrivalMinutes - b.arrivalMinutes
+  if (a.transfers.length !== b.transfers.length) return a.transfers.length - b.transfers.length
+  const walkA = rankedWalkKm(a, options)
+  const walkB = rankedWalkKm(b, options)
+  if (walkA !== walkB) return walkA - walkB
+  return b.departureMinutes - a.departureMinutes
+}
+
+export const itineraryKey = (itinerary: Itinerary) =>
+  itinerary.legs
+    .map((leg) => `${leg.trip.trip_id}:${leg.boardSequence}:${leg.alightSequence}`)
+    .join('|')
+
+export const paretoFront = (
+  itineraries: Itinerary[],
+  options: PlannerOptions = defaultPlannerOptions
+) =>
+  itineraries
+    .filter((candidate) => !itineraries.some((other) => dominates(other, candidate, options)))
+    .sort((a, b) => compareItineraries(a, b, options))
+
+export const planEarliestArrival = (
+  network: PlannerNetwork,
+  query: PlannerQuery,
+  options: PlannerOptions = defaultPlannerOptions
+) => {
+  const round0 = new Map<string, Label>()
+  query.origins.forEach((access) => {
+    const arrival = query.departureMinutes + walkingMinutes(access.walkDistanceKm, options)
+    const penalty = walkingMinutes(accessPenaltyKm(access.stop, options), options)
+    const existing = round0.get(access.stop.stop_id)
+    if (!existing || arrival + penalty < existing.arrival + existing.penalty) {
+      round0.set(access.stop.stop_id, { kind: 'access', round: 0, arrival, penalty, access })
+    }
+  })
+  const rounds: Array<Map<string, Label>> = [round0]
+  // Best arrival plus penalty at each stop over all rounds.
+  const best = new Map<string, number>()
+  round0.forEach((label, stopId) => best.set(stopId, label.arrival + label.penalty))
+
+  const targetBound = () =>
+    query.destinations.reduce((bound, destination) => {
+      const arrival = best.get(destination.stop.stop_id)
+      if (arrival === undefined) return bound
+      return Math.min(bound, arrival + walkingMinutes(destination.walkDistanceKm, options))
+    }, Number.POSITIVE_INFINITY)
+
+  let marked = new Set(round0.keys())
+  for (let round = 1; round <= options.maxTransfers + 1 && marked.size > 0; round += 1) {
+    const previous = rounds[round - 1]
+    const current = new Map(previous)
+    const improved = new Set<string>()
+    const bound = targetBound()
+
+    const tripsToScan = new Set<Trip>()
+    marked.forEach((stopId) => {
+      network.tripsByStop.get(stopId)?.forEach((trip) => tripsToScan.add(trip))
+    })
+
+    tripsToScan.forEach((trip) => {
+      const times = network.timesByTrip.get(trip.trip_id)
+      if (!times) return
+      let boardIndex = -1
+      let penalty = 0
+      times.forEach((time, index) => {
+        const stopId = time.stopTime.stop_id
+        if (boardIndex >= 0 && !network.blockedStopIds.has(stopId)) {
+          const arrival = time.arrival
+          const ranked = arrival + penalty
+          if (ranked < (best.get(stopId) ?? Number.POSITIVE_INFINITY) && ranked < bound) {
+            current.set(stopId, {
+              kind: 'ride',
+              round,
+              arrival,
+              penalty,
+              trip,
+              boardIndex,
+              alightIndex: index,
+            })
+            best.set(stopId, ranked)
+            improved.add(stopId)
+          }
+        }
+        if (boardIndex < 0) {
+          const label = previous.get(stopId)
+          if (label && readyTime(label, options) <= time.departure) {
+            boardIndex = index
+            penalty = label.penalty
+          }
+        } else if (times[boardIndex].stopTime.stop_id === stopId) {
+          // A loop that passes the boarding stop again: board at the later visit, which
+          // reaches every stop after it just as early with less time on the bus.
+          boardIndex = index
+        }
+      })
+    })
+
+    const rideLabels = [...improved]
+      .map((stopId) => current.get(stopId))
+      .filter((label): label is RideLabel => label?.kind === 'ride')
+    rideLabels.forEach((rideLabel) => {
+      const times = network.timesByTrip.get(rideLabel.trip.trip_id)
+      const fromStopId = times?.[rideLabel.alightIndex].stopTime.stop_id
+      if (!fromStopId) return
+      network.footpaths.get(fromStopId)?.forEach((footpath) => {
+        const arrival =
+          rideLabel.arrival +
+          Math.max(
+            walkingMinutes(footpath.distanceKm, options),
+            options.minTransferMinutes
+          )
+        const ranked = arrival + rideLabel.penalty
+        if (ranked < (best.get(footpath.toStopId) ?? Number.POSITIVE_INFINITY)) {
+          current.set(footpath.toStopId, {
+            kind: 'walk',
+            round,
+            arrival,
+            penalty: rideLabel.penalty,
+            from: rideLabel,
+            fromStopId,
+            distanceKm: footpath.distanceKm,
+          })
+          best.set(footpath.toStopId, ranked)
+          improved.add(footpath.toStopId)
+        }
+      })
+    })
+
+    rounds.push(current)
+    marked = improved
+  }
+
+  const itineraries: Itinerary[] = []
+  for (let round = 1; round < rounds.length; round += 1) {
+    query.destinations.forEach((destination) => {
+      const label = rounds[round].get(destination.stop.stop_id)
+      if (!label || label.round !== round) return
+      const itinerary = reconstruct(network, rounds, round, destination, options)
+      if (itinerary) itineraries.push(itinerary)
+    })
+  }
+  return paretoFront(itineraries, options)
+}
+
+export const planDepartures = (
+  network: PlannerNetwork,
+  query: PlannerQuery,
+  count: number,
+  options: PlannerOptions = defaultPlannerOptions
+) => {
+  const results: Itinerary[] = []
+  const seen = new Set<string>()
+  let departureMinutes = query.departureMinutes
+  for (let iteration = 0; iteration < maxRangeIterations; iteration += 1) {
+    const front = planEarliestArrival(network, { ...query, departureMinutes }, options)
+    if (front.length === 0) break
+    front.forEach((itinerary) => {
+      const key = itineraryKey(itinerary)
+      if (seen.has(key)) return
+      seen.add(key)
+      results.push(itinerary)
+    })
+    if (results.length >= count) break
+    departureMinutes =
+      Math.min(...front.map((itinerary) => itinerary.departureMinutes)) + rangeStepMinutes
+  }
+  return results.slice(0, count)
+}
+
+export const planArriveBy = (
+  network: PlannerNetwork,
+  query: Omit<PlannerQuery, 'departureMinutes'>,
+  arriveByMinutes: number,
+  count: number,
+  options: PlannerOptions = defaultPlannerOptions
+) => {
+  const departureTimes = new Set<number>()
+  query.origins.forEach((access) => {
+    const accessMinutes = walkingMinutes(access.walkDistanceKm, options)
+    network.tripsByStop.get(access.stop.stop_id)?.forEach((trip) => {
+      network.timesByTrip.get(trip.trip_id)?.forEach((time) => {
+        if (time.stopTime.stop_id !== access.stop.stop_id) return
+        if (time.departure > arriveByMinutes) return
+        if (time.departure < arriveByMinutes - arriveByWindowMinutes) return
+        departureTimes.add(time.departure - accessMinutes)
+      })
+    })
+  })
+
+  const results: Itinerary[] = []
+  const seen = new Set<string>()
+  const latestFirst = [...departureTimes].sort((a, b) => b - a).slice(0, maxArriveBySearches)
+  for (const departureMinutes of latestFirst) {
+    const arriving = planEarliestArrival(network, { ...query, departureMinutes }, options).filter(
+      (itinerary) => itinerary.arrivalMinutes <= arriveByMinutes
+    )
+    arriving.forEach((itinerary) => {
+      const key = itineraryKey(itinerary)
+      if (seen.has(key)) return
+      seen.add(key)
+      results.push(itinerary)
+    })
+    if (results.length >= count) break
+  }
+  return results
+    .sort((a, b) => b.departureMinutes - a.departureMinutes || compareItineraries(a, b, options))
+    .slice(0, count)
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { buildGtfsFiles, lineOfStops } from '../test/gtfsFixtures'
+import { serviceTimeToEpochSeconds } from './calendar'
+import { parseGtfsFeed } from './gtfsFeed'
+import {
+  getStopDelaySeconds,
+  type RealtimeContext,
+  type StopTimeUpdate,
+  type TripRealtime,
+} from './realtime'
+
+const feed = parseGtfsFeed(
+  buildGtfsFiles({
+    stops: lineOfStops(['A', 'B', 'C', 'D']),
+    trips: [
+      {
+        id: 'Loop',
+        route: 'R',
+        stopTimes: [
+          ['A', '08:00:00'],
+          ['B', '08:10:00'],
+          ['C', '08:20:00'],
+          ['A', '08:30:00'],
+          ['B', '08:40:00'],
+          ['D', '08:50:00'],
+        ],
+      },
+    ],
+  })
+)
+
+const serviceDate = '20261019'
+const timeZone = 'America/Regina'
+
+const stopUpdate = (stopId: string, delaySeconds: number): StopTimeUpdate => ({
+  stopSequence: null,
+  stopId,
+  arrivalDelay: delaySeconds,
+  arrivalTime: null,
+  departureDelay: delaySeconds,
+  departureTime: null,
+  skipped: false,
+})
+
+const contextFor = (realtime: TripRealtime): RealtimeContext => ({
+  snapshot: {
+    feedTimestamp: 0,
+    tripUpdates: new Map([[realtime.tripId, realtime]]),
+    vehicles: [],
+  },
+  stopTimesByTrip: feed.stopTimesByTrip,
+  serviceDate,
+  timeZone,
+})
+
+describe('getStopDelaySeconds', () => {
+  it('matches updates that only name their stop to the visits in trip order', () => {
+    const realtime: TripRealtime = {
+      tripId: 'Loop',
+      startDate: null,
+      canceled: false,
+      delaySeconds: null,
+      updates: [stopUpdate('A', 60), stopUpdate('B', 120), stopUpdate('A', 300)],
+    }
+    const context = contextFor(realtime)
+    const delayAt = (sequence: number) =>
+      getStopDelaySeconds(context, realtime, sequence, 'arrival')
+    expect(delayAt(1)).toBe(60)
+    expect(delayAt(2)).toBe(120)
+    expect(delayAt(3)).toBe(120)
+    expect(delayAt(4)).toBe(300)
+    expect(delayAt(6)).toBe(300)
+  })
+
+  it('reads an absolute time at the second visit against that visit', () => {
+    const arrivalTime = serviceTimeToEpochSeconds(serviceDate, 8 * 60 + 30, timeZone) + 90
+    const realtime: TripRealtime = {
+      tripId: 'Loop',
+      startDate: null,
+      canceled: false,
+      delaySeconds: null,
+      updates: [
+        stopUpdate('A', 0),
+        { ...stopUpdate('A', 0), arrivalDelay: null, departureDelay: null, arrivalTime },
+      ],
+    }
+    expect(getStopDelaySeconds(contextFor(realtime), realtime, 4, 'arrival')).toBe(90)
+  })
+})
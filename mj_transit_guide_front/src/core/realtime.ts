@@ -0,0 +1,178 @@
+import { serviceTimeToEpochSeconds } from './calendar'
+import type { Itinerary } from './raptor'
+import { minutesToTime, timeToMinutes } from './time'
+import type { CandidateTrip, StopTime } from './types'
+
+export type StopTimeUpdate = {
+  stopSequence: number | null
+  stopId: string | null
+  arrivalDelay: number | null
+  arrivalTime: number | null
+  departureDelay: number | null
+  departureTime: number | null
+  skipped: boolean
+}
+
+export type TripRealtime = {
+  tripId: string
+  startDate: string | null
+  canceled: boolean
+  delaySeconds: number | null
+  updates: StopTimeUpdate[]
+}
+
+export type VehicleLocation = {
+  id: string
+  label: string | null
+  tripId: string | null
+  routeId: string | null
+  lat: number
+  lon: number
+  bearing: number | null
+  timestamp: number | null
+}
+
+export type RealtimeSnapshot = {
+  // Epoch seconds from the feed header, or the fetch time when the header has none.
+  feedTimestamp: number
+  tripUpdates: Map<string, TripRealtime>
+  vehicles: VehicleLocation[]
+}
+
+export type RealtimeContext = {
+  snapshot: RealtimeSnapshot
+  stopTimesByTrip: Map<string, StopTime[]>
+  serviceDate: string
+  timeZone: string
+}
+
+export const realtimeMaxAgeSeconds = 180
+
+export const isSnapshotFresh = (
+  snapshot: RealtimeSnapshot,
+  nowEpochSeconds: number,
+  maxAgeSeconds = realtimeMaxAgeSeconds
+) => nowEpochSeconds - snapshot.feedTimestamp <= maxAgeSeconds
+
+export const getFreshVehicles = (
+  snapshot: RealtimeSnapshot,
+  nowEpochSeconds: number,
+  maxAgeSeconds = realtimeMaxAgeSeconds
+) =>
+  snapshot.vehicles.filter(
+    (vehicle) => nowEpochSeconds - (vehicle.timestamp ?? snapshot.feedTimestamp) <= maxAgeSeconds
+  )
+
+export const findTripRealtime = (context: RealtimeContext, tripId: string) => {
+  const realtime = context.snapshot.tripUpdates.get(tripId)
+  if (!realtime) return null
+  if (realtime.startDate && realtime.startDate !== context.serviceDate) return null
+  return realtime
+}
+
+// Delays propagate downstream: a stop without its own update inherits the delay of the
+// closest earlier update, per the GTFS-Realtime spec.
+export const getStopDelaySeconds = (
+  context: RealtimeContext,
+  realtime: TripRealtime,
+  stopSequence: number,
+  event: 'arrival' | 'departure'
+) => {
+  const stopTimes = context.stopTimesByTrip.get(realtime.tripId) ?? []
+  // Updates come in trip order, so an update that only names its stop matches the first visit
+  // after the previous update; a loop that passes the stop twice gets both visits right.
+  let matchedSequence = Number.NEGATIVE_INFINITY
+  const sequenceOf = (update: StopTimeUpdate) => {
+    const sequence =
+      update.stopSequence ??
+      stopTimes.find(
+        (stopTime) =>
+          stopTime.stop_id === update.stopId && stopTime.stop_sequence > matchedSequence
+      )?.stop_sequence ??
+      null
+    if (sequence !== null) matchedSequence = sequence
+    return sequence
+  }
+  let best: { update: StopTimeUpdate; sequence: number } | null = null
+  for (const update of realtime.updates) {
+    const sequence = sequenceOf(update)
+    if (sequence === null || sequence > stopSequence || update.skipped) continue
+    if (!best || sequence >= best.sequence) best = { update, sequence }
+  }
+  if (!best) return realtime.delaySeconds
+  const { update, sequence } = best
+  const preferDeparture = event === 'departure' || sequence < stopSequence
+  const delay = preferDeparture
+    ? (update.departureDelay ?? update.arrivalDelay)
+    : (update.arrivalDelay ?? update.departureDelay)
+  if (delay !== null) return delay
+  const absolute = preferDeparture
+    ? (update.departureTime ?? update.arrivalTime)
+    : (update.arrivalTime ?? update.departureTime)
+  const stopTime = stopTimes.find((item) => item.stop_sequence === sequence)
+  if (absolute === null || !stopTime) return realtime.delaySeconds
+  const scheduled = serviceTimeToEpochSeconds(
+    context.serviceDate,
+    timeToMinutes(preferDeparture ? stopTime.departure_time : stopTime.arrival_time),
+    context.timeZone
+  )
+  return absolute - scheduled
+}
+
+const shiftTime = (value: string, delaySeconds: number) =>
+  minutesToTime(timeToMinutes(value) + delaySeconds / 60)
+
+export const applyRealtimeToLeg = (leg: CandidateTrip, context: RealtimeContext): CandidateTrip => {
+  const scheduledBoardTime = leg.realtime?.scheduledBoardTime ?? leg.boardTime
+  const scheduledAlightTime = leg.realtime?.scheduledAlightTime ?? leg.alightTime
+  const realtime = findTripRealtime(context, leg.trip.trip_id)
+  if (!realtime) {
+    return {
+      ...leg,
+      boardTime: scheduledBoardTime,
+      alightTime: scheduledAlightTime,
+      realtime: { status: 'scheduled', scheduledBoardTime, scheduledAlightTime },
+    }
+  }
+  const boardDelay = getStopDelaySeconds(context, realtime, leg.boardSequence, 'departure')
+  const alightDelay = getStopDelaySeconds(context, realtime, leg.alightSequence, 'arrival')
+  return {
+    ...leg,
+    boardTime: boardDelay === null ? scheduledBoardTime : shiftTime(scheduledBoardTime, boardDelay),
+    alightTime:
+      alightDelay === null ? scheduledAlightTime : shiftTime(scheduledAlightTime, alightDelay),
+    realtime: {
+      status: realtime.canceled ? 'canceled' : 'live',
+      scheduledBoardTime,
+      scheduledAlightTime,
+    },
+  }
+}
+
+export const applyRealtimeToItinerary = <T extends Itinerary>(
+  itinerary: T,
+  context: RealtimeContext
+): T => {
+  const legs = itinerary.legs.map((leg) => applyRealtimeToLeg(leg, context))
+  const boardShift =
+    timeToMinutes(legs[0].boardTime) - timeToMinutes(itinerary.legs[0].boardTime)
+  const alightShift =
+    timeToMinutes(legs[legs.length - 1].alightTime) -
+    timeToMinutes(itinerary.legs[itinerary.legs.length - 1].alightTime)
+  const departureMinutes = itinerary.departureMinutes + boardShift
+  const arrivalMinutes = itinerary.arrivalMinutes + alightShift
+  return {
+    ...itinerary,
+    legs,
+    transfers: itinerary.transfers.map((transfer, index) => ({
+      ...transfer,
+      layoverMinutes:
+        timeToMinutes(legs[index + 1].boardTime) -
+        timeToMinutes(legs[index].alightTime) -
+        transfer.walkMinutes,
+    })),
+    departureMinutes,
+    arrivalMinutes,
+    totalMinutes: arrivalMinutes - departureMinutes,
+  }
+}
@@ -0,0 +1,161 @@
+import type { ShapePoint } from './gtfsFeed'
+import type { Stop, StopTime } from './types'
+
+// Distances are measured on a flat projection around the shape, which is accurate to well
+// under a metre across a city the size of Moose Jaw.
+const kmPerDegreeLat = 110.574
+const kmPerDegreeLonAtEquator = 111.32
+// A stop is matched to the earliest pass of the shape within this much of its closest pass,
+// so a loop that comes back past the same stop is not skipped ahead.
+const passToleranceKm = 0.05
+// Stops further than this from their trip's shape are reported by feed validation.
+export const maxStopOffsetKm = 0.1
+
+type PlanarPoint = { x: number; y: number }
+
+export type ShapeProjection = {
+  // Distance along the shape to the point closest to the stop.
+  distanceKm: number
+  // Straight-line distance from the stop to that point.
+  offsetKm: number
+}
+
+const createPlanar = (originLat: number) => {
+  const kmPerDegreeLon = kmPerDegreeLonAtEquator * Math.cos((originLat * Math.PI) / 180)
+  return (lat: number, lon: number): PlanarPoint => ({
+    x: lon * kmPerDegreeLon,
+    y: lat * kmPerDegreeLat,
+  })
+}
+
+const planarDistance = (a: PlanarPoint, b: PlanarPoint) => Math.hypot(a.x - b.x, a.y - b.y)
+
+export const measureShape = (shape: ShapePoint[]) => {
+  const toPlanar = createPlanar(shape[0]?.lat ?? 0)
+  const points = shape.map((point) => toPlanar(point.lat, point.lon))
+  const cumulativeKm = [0]
+  for (let index = 1; index < points.length; index += 1) {
+    cumulativeKm.push(cumulativeKm[index - 1] + planarDistance(points[index - 1], points[index]))
+  }
+  return { toPlanar, points, cumulativeKm }
+}
+
+// Projects stops, in trip order, onto the shape. Progress along the shape never goes backwards,
+// so each stop lands on the pass that follows the previous stop.
+export const projectOntoShape = (
+  stops: Array<{ lat: number; lon: number }>,
+  shape: ShapePoint[]
+): ShapeProjection[] => {
+  const { toPlanar, points, cumulativeKm } = measureShape(shape)
+  if (points.length < 2) {
+    return stops.map((stop) => ({
+      distanceKm: 0,
+      offsetKm: points[0] ? planarDistance(points[0], toPlanar(stop.lat, stop.lon)) : Infinity,
+    }))
+  }
+  let fromSegment = 0
+  let fromDistanceKm = 0
+  return stops.map((stop) => {
+    const target = toPlanar(stop.lat, stop.lon)
+    const candidates: Array<ShapeProjection & { segment: number }> = []
+    for (let segment = fromSegment; segment < points.length - 1; segment += 1) {
+      const start = points[segment]
+      const end = points[segment + 1]
+      const length = cumulativeKm[segment + 1] - cumulativeKm[segment]
+      let ratio =
+        length === 0
+          ? 0
+          : ((target.x - start.x) * (end.x - start.x) + (target.y - start.y) * (end.y - start.y)) /
+            (length * length)
+      ratio = Math.min(1, Math.max(0, ratio))
+      let distanceKm = cumulativeKm[segment] + ratio * length
+      if (distanceKm < fromDistanceKm) {
+        distanceKm = fromDistanceKm
+        ratio = length === 0 ? 0 : (distanceKm - cumulativeKm[segment]) / length
+      }
+      const closest = {
+        x: start.x + ratio * (end.x - start.x),
+        y: start.y + ratio * (end.y - start.y),
+      }
+      candidates.push({ segment, distanceKm, offsetKm: planarDistance(target, closest) })
+    }
+    const bestOffset = Math.min(...candidates.map((candidate) => candidate.offsetKm))
+    let index = candidates.findIndex(
+      (candidate) => candidate.offsetKm <= bestOffset + passToleranceKm
+    )
+    // Follow that pass to where it comes closest to the stop.
+    while (
+      index + 1 < candidates.length &&
+      candidates[index + 1].offsetKm <= candidates[index].offsetKm
+    ) {
+      index += 1
+    }
+    const chosen = candidates[index]
+    fromSegment = chosen.segment
+    fromDistanceKm = chosen.distanceKm
+    return { distanceKm: chosen.distanceKm, offsetKm: chosen.offsetKm }
+  })
+}
+
+// Snaps each stop of a trip onto the trip's shape and records the distance along it as
+// shape_dist_traveled, in kilometres. Trips without a usable shape keep null distances.
+export const snapStopTimes = (
+  stopTimes: StopTime[],
+  stopById: Map<string, Pick<Stop, 'stop_lat' | 'stop_lon'>>,
+  shape: ShapePoint[] | undefined
+): StopTime[] => {
+  if (!shape || shape.length < 2) return stopTimes
+  const located = stopTimes.map((stopTime) => stopById.get(stopTime.stop_id))
+  if (located.some((stop) => !stop)) return stopTimes
+  const projections = projectOntoShape(
+    located.map((stop) => ({ lat: stop?.stop_lat ?? 0, lon: stop?.stop_lon ?? 0 })),
+    shape
+  )
+  return stopTimes.map((stopTime, index) => ({
+    ...stopTime,
+    shape_dist_traveled: projections[index].distanceKm,
+  }))
+}
+
+// Cumulative distance of each stop along the trip: shape_dist_traveled when every stop has one,
+// otherwise stop to stop in straight lines.
+export const measureStopDistances = (
+  stopTimes: StopTime[],
+  stopById: Map<string, Pick<Stop, 'stop_lat' | 'stop_lon'>>
+) => {
+  if (stopTimes.every((stopTime) => stopTime.shape_dist_traveled !== null)) {
+    return stopTimes.map((stopTime) => stopTime.shape_dist_traveled ?? 0)
+  }
+  const stops = stopTimes.map((stopTime) => stopById.get(stopTime.stop_id))
+  const toPlanar = createPlanar(stops[0]?.stop_lat ?? 0)
+  const points = stops.map((stop) => toPlanar(stop?.stop_lat ?? 0, stop?.stop_lon ?? 0))
+  const distances = [0]
+  for (let index = 1; index < points.length; index += 1) {
+    distances.push(distances[index - 1] + planarDistance(points[index - 1], points[index]))
+  }
+  return distances
+}
+
+const pointAlong = (shape: ShapePoint[], cumulativeKm: number[], distanceKm: number) => {
+  const segment = cumulativeKm.findIndex((km, index) => index > 0 && km >= distanceKm)
+  if (segment === -1) return shape[shape.length - 1]
+  const length = cumulativeKm[segment] - cumulativeKm[segment - 1]
+  const ratio = length === 0 ? 0 : (distanceKm - cumulativeKm[segment - 1]) / length
+  const start = shape[segment - 1]
+  const end = shape[segment]
+  return {
+    lat: start.lat + ratio * (end.lat - start.lat),
+    lon: start.lon + ratio * (end.lon - start.lon),
+  }
+}
+
+// The part of the shape between two distances along it, such as a leg's boarding and
+// alighting stops, with the ends cut at the exact distances.
+export const sliceShape = (shape: ShapePoint[], fromKm: number, toKm: number): ShapePoint[] => {
+  if (shape.length < 2 || toKm <= fromKm) return []
+  const { cumulativeKm } = measureShape(shape)
+  const inside = shape.filter(
+    (_, index) => cumulativeKm[index] > fromKm && cumulativeKm[index] < toKm
+  )
+  return [pointAlong(shape, cumulativeKm, fromKm), ...inside, pointAlong(shape, cumulativeKm, toKm)]
+}
@@ -0,0 +1,31 @@
+export const timeToMinutes = (value: string) => {
+  const [hours, minutes = 0, seconds = 0] = value.split(':').map((part) => Number(part) || 0)
+  return hours * 60 + minutes + seconds / 60
+}
+
+export const formatTime = (value: string) => {
+  const [rawHours, rawMinutes] = value.split(':')
+  const hoursTotal = Number(rawHours)
+  const minutes = Number(rawMinutes)
+  if (!Number.isFinite(hoursTotal) || !Number.isFinite(minutes)) {
+    return value
+  }
+  const hours24 = ((hoursTotal % 24) + 24) % 24
+  const period = hours24 >= 12 ? 'PM' : 'AM'
+  const hours12 = hours24 % 12 || 12
+  return `${hours12}:${String(minutes).padStart(2, '0')} ${period}`
+}
+
+export const minutesToTime = (value: number) => {
+  const totalSeconds = Math.max(0, Math.round(value * 60))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  return [hours, minutes, seconds].map((part) => String(part).padStart(2, '0')).join(':')
+}
+
+// HH:MM on a 24-hour clock, as used by time inputs; service times past midnight wrap around.
+export const minutesToClockTime = (value: number) =>
+  `${String(Math.floor(value / 60) % 24).padStart(2, '0')}:${String(
+    Math.floor(value % 60)
+  ).padStart(2, '0')}`
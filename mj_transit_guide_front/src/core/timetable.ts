@@ -0,0 +1,90 @@
+import { timeToMinutes } from './time'
+import type { Stop, StopTime, Trip } from './types'
+
+export type TimetableRow = {
+  stop: Stop
+  timepoint: boolean
+}
+
+export type TimetablePattern = {
+  key: string
+  headsign: string
+  rows: TimetableRow[]
+  trips: Trip[]
+  // times[tripIndex][rowIndex]; null when the trip does not serve that row.
+  times: Array<Array<string | null>>
+  // Same layout as times; true where the time was interpolated between timepoints.
+  estimated: boolean[][]
+}
+
+const patternKey = (stopTimes: StopTime[]) =>
+  stopTimes.map((stopTime) => stopTime.stop_id).join('>')
+
+export const buildRouteTimetable = (
+  routeId: string,
+  trips: Trip[],
+  stopTimesByTrip: Map<string, StopTime[]>,
+  stopById: Map<string, Stop>
+) => {
+  const grouped = new Map<string, Array<{ trip: Trip; stopTimes: StopTime[] }>>()
+  const seenWindows = new Set<string>()
+  trips.forEach((trip) => {
+    if (trip.route_id !== routeId) return
+    // A headway window gets one column, showing its first bus.
+    if (trip.frequency && !trip.frequency.exactTimes) {
+      const key = `${trip.frequency.baseTripId}@${trip.frequency.windowStart}`
+      if (seenWindows.has(key)) return
+      seenWindows.add(key)
+    }
+    const stopTimes = stopTimesByTrip.get(trip.trip_id)
+    if (!stopTimes || stopTimes.length === 0) return
+    const key = patternKey(stopTimes)
+    const list = grouped.get(key) ?? []
+    list.push({ trip, stopTimes })
+    grouped.set(key, list)
+  })
+
+  const patterns: TimetablePattern[] = []
+  grouped.forEach((entries, key) => {
+    entries.sort(
+      (a, b) =>
+        timeToMinutes(a.stopTimes[0].departure_time) - timeToMinutes(b.stopTimes[0].departure_time)
+    )
+    const template = entries[0].stopTimes
+    const rows: TimetableRow[] = []
+    const rowIndexes: number[] = []
+    template.forEach((stopTime, index) => {
+      const stop = stopById.get(stopTime.stop_id)
+      if (!stop) return
+      rows.push({ stop, timepoint: stopTime.timepoint })
+      rowIndexes.push(index)
+    })
+    patterns.push({
+      key,
+      headsign: entries[0].trip.trip_headsign,
+      rows,
+      trips: entries.map((entry) => entry.trip),
+      times: entries.map((entry) =>
+        rowIndexes.map((index) => entry.stopTimes[index]?.departure_time ?? null)
+      ),
+      estimated: entries.map((entry) =>
+        rowIndexes.map((index) => entry.stopTimes[index]?.estimated ?? false)
+      ),
+    })
+  })
+  return patterns.sort((a, b) => b.trips.length - a.trips.length)
+}
+
+export const findCurrentTripIndex = (pattern: TimetablePattern, nowMinutes: number) =>
+  pattern.times.findIndex((tripTimes, tripIndex) => {
+    const last = [...tripTimes].reverse().find((time): time is string => time !== null)
+    if (last === undefined) return false
+    const { frequency } = pattern.trips[tripIndex]
+    const windowMinutes =
+      frequency && !frequency.exactTimes
+        ? timeToMinutes(frequency.windowEnd) -
+          timeToMinutes(frequency.windowStart) -
+          frequency.headwayMinutes
+        : 0
+    return timeToMinutes(last) + windowMinutes >= nowMinutes
+  })
@@ -0,0 +1,77 @@
+// GTFS accessibility codes: 0 means no information, 1 yes, 2 no.
+export type AccessibilityCode = 0 | 1 | 2
+
+export type Stop = {
+  stop_id: string
+  stop_code: string
+  stop_name: string
+  stop_lat: number
+  stop_lon: number
+  wheelchair_boarding: AccessibilityCode
+}
+
+export type StopTime = {
+  trip_id: string
+  arrival_time: string
+  departure_time: string
+  stop_id: string
+  stop_sequence: number
+  timepoint: boolean
+  // True when the time was interpolated between timepoints rather than taken from the feed.
+  estimated: boolean
+  // Kilometres along the trip's shape, found by snapping the stop onto it; null without a shape.
+  shape_dist_traveled: number | null
+}
+
+export type Trip = {
+  trip_id: string
+  route_id: string
+  service_id: string
+  trip_headsign: string
+  trip_short_name: string
+  shape_id: string
+  // 0 and 1 tell the two directions of a route apart; null when the feed leaves it blank.
+  direction_id: 0 | 1 | null
+  wheelchair_accessible: AccessibilityCode
+  bikes_allowed: AccessibilityCode
+  // Set on trips expanded from a frequencies.txt window.
+  frequency?: {
+    baseTripId: string
+    headwayMinutes: number
+    // False when the window only promises a headway, not exact departure times.
+    exactTimes: boolean
+    windowStart: string
+    windowEnd: string
+  }
+}
+
+export type Route = {
+  route_id: string
+  route_short_name: string
+  route_long_name: string
+  route_color: string
+  route_text_color: string
+}
+
+export type CandidateTrip = {
+  trip: Trip
+  route: Route | undefined
+  boardStop: Stop
+  alightStop: Stop
+  boardTime: string
+  alightTime: string
+  boardSequence: number
+  alightSequence: number
+  boardTimeEstimated: boolean
+  alightTimeEstimated: boolean
+  // shape_dist_traveled at the boarding and alighting stops.
+  boardShapeDistanceKm: number | null
+  alightShapeDistanceKm: number | null
+  walkDistanceKm: number | null
+  // Set once realtime data has been applied; boardTime/alightTime then hold the predictions.
+  realtime?: {
+    status: 'live' | 'scheduled' | 'canceled'
+    scheduledBoardTime: string
+    scheduledAlightTime: string
+  }
+}
@@ -0,0 +1,260 @@
+import type { Stop } from '../core/types'
+import type {
+  AddressSuggestion,
+  GeocodedPlace,
+  GeocodingProvider,
+  LatLng,
+} from './provider'
+
+type StreetPoint = LatLng & {
+  crossKey: string
+  avenueNumber: number | null
+}
+
+type GazetteerStreet = {
+  key: string
+  name: string
+  points: StreetPoint[]
+}
+
+type GazetteerIntersection = {
+  key: string
+  name: string
+  location: LatLng
+}
+
+export type StreetGazetteer = {
+  streets: Map<string, GazetteerStreet>
+  intersections: Map<string, GazetteerIntersection>
+}
+
+const abbreviations: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  drive: 'dr',
+  crescent: 'cres',
+  road: 'rd',
+  court: 'crt',
+  place: 'pl',
+  trail: 'tr',
+  boulevard: 'blvd',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+  northwest: 'nw',
+  northeast: 'ne',
+  southwest: 'sw',
+  southeast: 'se',
+}
+
+const streetTypePattern = /\b(st|ave|dr|cres|rd|crt|pl|tr|blvd|lane|way)\b/
+const ignoredSuffixes = /\s+(eastbound|westbound|mid-block)$/i
+const avenuePattern = /^(\d+)(st|nd|rd|th) ave\b/
+const maxSuggestions = 8
+const reverseRadiusKm = 0.25
+const cityLabel = 'Moose Jaw'
+
+export const normalizeStreetName = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => abbreviations[token] ?? token)
+    .join(' ')
+
+const cleanStreetName = (value: string) => value.replace(ignoredSuffixes, '').trim()
+
+const tokensMatch = (queryTokens: string[], key: string) => {
+  const keyTokens = key.split(' ')
+  return queryTokens.every((token) => keyTokens.some((keyToken) => keyToken.startsWith(token)))
+}
+
+const distanceKm = (a: LatLng, b: LatLng) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLon = toRad(b.lng - a.lng)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+const intersectionKey = (a: string, b: string) => [a, b].sort().join(' & ')
+
+export const buildStreetGazetteer = (stops: Stop[]): StreetGazetteer => {
+  const streets = new Map<string, GazetteerStreet>()
+  const intersectionPoints = new Map<string, { name: string; points: LatLng[] }>()
+
+  stops.forEach((stop) => {
+    const parts = stop.stop_name.split('/').map(cleanStreetName)
+    if (parts.length !== 2) return
+    const keys = parts.map(normalizeStreetName)
+    if (!keys.every((key) => streetTypePattern.test(key))) return
+    const location = { lat: stop.stop_lat, lng: stop.stop_lon }
+
+    parts.forEach((name, index) => {
+      const key = keys[index]
+      const crossKey = keys[1 - index]
+      const avenueMatch = crossKey.match(avenuePattern)
+      const street = streets.get(key) ?? { key, name, points: [] }
+      street.points.push({
+        ...location,
+        crossKey,
+        avenueNumber: avenueMatch ? Number(avenueMatch[1]) : null,
+      })
+      streets.set(key, street)
+    })
+
+    const key = intersectionKey(keys[0], keys[1])
+    const entry = intersectionPoints.get(key) ?? { name: `${parts[0]} & ${parts[1]}`, points: [] }
+    entry.points.push(location)
+    intersectionPoints.set(key, entry)
+  })
+
+  const intersections = new Map<string, GazetteerIntersection>()
+  intersectionPoints.forEach((entry, key) => {
+    intersections.set(key, {
+      key,
+      name: entry.name,
+      location: {
+        lat: entry.points.reduce((sum, point) => sum + point.lat, 0) / entry.points.length,
+        lng: entry.points.reduce((sum, point) => sum + point.lng, 0) / entry.points.length,
+      },
+    })
+  })
+  return { streets, intersections }
+}
+
+const streetMidpoint = (street: GazetteerStreet): LatLng => {
+  const centroid = {
+    lat: street.points.reduce((sum, point) => sum + point.lat, 0) / street.points.length,
+    lng: street.points.reduce((sum, point) => sum + point.lng, 0) / street.points.length,
+  }
+  const closest = street.points.reduce((best, point) =>
+    distanceKm(point, centroid) < distanceKm(best, centroid) ? point : best
+  )
+  return { lat: closest.lat, lng: closest.lng }
+}
+
+// Moose Jaw numbers east-west streets in blocks of 100 per numbered avenue, so
+// 1020 Athabasca St W sits just past 10th Ave NW.
+const locateHouseNumber = (street: GazetteerStreet, houseNumber: number) => {
+  const target = houseNumber / 100
+  const numbered = street.points
+    .filter((point): point is StreetPoint & { avenueNumber: number } => point.avenueNumber !== null)
+    .sort(
+      (a, b) => Math.abs(a.avenueNumber - target) - Math.abs(b.avenueNumber - target)
+    )
+  const [first] = numbered
+  const second = numbered.find((point) => point.avenueNumber !== first?.avenueNumber)
+  if (!first) return null
+  if (!second) {
+    return Math.abs(first.avenueNumber - target) <= 1 ? { lat: first.lat, lng: first.lng } : null
+  }
+  const ratio = (target - first.avenueNumber) / (second.avenueNumber - first.avenueNumber)
+  return {
+    lat: first.lat + (second.lat - first.lat) * ratio,
+    lng: first.lng + (second.lng - first.lng) * ratio,
+  }
+}
+
+export const createGazetteerGeocodingProvider = (
+  gazetteer: StreetGazetteer
+): GeocodingProvider => {
+  const suggest = async (query: string): Promise<AddressSuggestion[]> => {
+    const normalized = normalizeStreetName(query)
+    if (!normalized) return []
+    const intersectionParts = normalized.split(/\s*(?:&|\/|\band\b|\bat\b)\s*/).filter(Boolean)
+    if (intersectionParts.length === 2) {
+      const [first, second] = intersectionParts.map((part) => part.split(' '))
+      return [...gazetteer.intersections.values()]
+        .filter((intersection) => {
+          const [a, b] = intersection.key.split(' & ')
+          return (
+            (tokensMatch(first, a) && tokensMatch(second, b)) ||
+            (tokensMatch(first, b) && tokensMatch(second, a))
+          )
+        })
+        .slice(0, maxSuggestions)
+        .map((intersection) => ({
+          description: `${intersection.name}, ${cityLabel}`,
+          place_id: `intersection:${intersection.key}`,
+          source: 'gazetteer' as const,
+        }))
+    }
+
+    const numberMatch = normalized.match(/^(\d+)\s+(.+)$/)
+    const houseNumber = numberMatch ? Number(numberMatch[1]) : null
+    const streetTokens = (numberMatch ? numberMatch[2] : normalized).split(' ')
+    return [...gazetteer.streets.values()]
+      .filter((street) => tokensMatch(streetTokens, street.key))
+      .sort((a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name))
+      .slice(0, maxSuggestions)
+      .map((street) => ({
+        description: `${houseNumber !== null ? `${houseNumber} ` : ''}${street.name}, ${cityLabel}`,
+        place_id:
+          houseNumber !== null ? `street:${street.key}:${houseNumber}` : `street:${street.key}`,
+        source: 'gazetteer' as const,
+      }))
+  }
+
+  const resolve = async (suggestion: AddressSuggestion): Promise<GeocodedPlace | null> => {
+    const [kind, key, houseNumber] = suggestion.place_id.split(':')
+    if (kind === 'intersection') {
+      const intersection = gazetteer.intersections.get(key)
+      if (!intersection) return null
+      return {
+        address: `${intersection.name}, ${cityLabel}`,
+        place_id: suggestion.place_id,
+        source: 'gazetteer',
+        location: intersection.location,
+        inServiceArea: true,
+      }
+    }
+    const street = kind === 'street' ? gazetteer.streets.get(key) : undefined
+    if (!street) return null
+    const interpolated = houseNumber ? locateHouseNumber(street, Number(houseNumber)) : null
+    return {
+      address: houseNumber
+        ? `${houseNumber} ${street.name}, ${cityLabel}${interpolated ? '' : ' (approximate)'}`
+        : `${street.name}, ${cityLabel}`,
+      place_id: suggestion.place_id,
+      source: 'gazetteer',
+      location: interpolated ?? streetMidpoint(street),
+      inServiceArea: true,
+    }
+  }
+
+  return {
+    source: 'gazetteer',
+    label: 'the offline Moose Jaw street list',
+    suggest,
+    resolve,
+    geocode: async (query) => {
+      const [first] = await suggest(query)
+      return first ? resolve(first) : null
+    },
+    reverseGeocode: async (location) => {
+      let nearest: GazetteerIntersection | null = null
+      let nearestDistance = Number.POSITIVE_INFINITY
+      gazetteer.intersections.forEach((intersection) => {
+        const distance = distanceKm(location, intersection.location)
+        if (distance < nearestDistance) {
+          nearest = intersection
+          nearestDistance = distance
+        }
+      })
+      if (!nearest || nearestDistance > reverseRadiusKm) return null
+      const { name, key } = nearest as GazetteerIntersection
+      return {
+        address: `Near ${name}, ${cityLabel}`,
+        place_id: `intersection:${key}`,
+        source: 'gazetteer',
+        location,
+        inServiceArea: true,
+      }
+    },
+  }
+}
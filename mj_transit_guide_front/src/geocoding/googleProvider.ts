@@ -0,0 +1,151 @@
+import type { Bounds } from '../core/geometry'
+import { loadGoogleMaps } from '../googleMapsLoader'
+import type { GeocodedPlace, GeocodingProvider } from './provider'
+
+type GoogleAddressComponent = { long_name: string; short_name: string; types: string[] }
+
+type GoogleGeocoderResult = {
+  formatted_address?: string
+  place_id?: string
+  address_components?: GoogleAddressComponent[]
+  geometry?: { location?: { lat: () => number; lng: () => number } }
+}
+
+type GooglePrediction = {
+  description: string
+  place_id?: string
+}
+
+const mooseJawName = 'moose jaw'
+const mooseJawProvince = 'saskatchewan'
+const mooseJawProvinceAbbr = 'sk'
+
+const normalize = (value?: string) => value?.trim().toLowerCase() ?? ''
+
+const isMooseJawLocality = (value?: string) => normalize(value) === mooseJawName
+
+const isMooseJawProvince = (value?: string) => {
+  const normalized = normalize(value)
+  return normalized === mooseJawProvince || normalized === mooseJawProvinceAbbr
+}
+
+const getGoogleComponent = (components: GoogleAddressComponent[], type: string) =>
+  components.find((component) => component.types.includes(type))
+
+const getGoogleLocality = (components: GoogleAddressComponent[]) => {
+  const locality = getGoogleComponent(components, 'locality')
+  if (locality) return locality.long_name
+  const postalTown = getGoogleComponent(components, 'postal_town')
+  return postalTown?.long_name
+}
+
+const isMooseJawGoogleResult = (result: GoogleGeocoderResult) => {
+  const components = result.address_components ?? []
+  const locality = getGoogleLocality(components)
+  if (isMooseJawLocality(locality)) return true
+  const admin = getGoogleComponent(components, 'administrative_area_level_1')
+  if (admin) {
+    if (!isMooseJawProvince(admin.long_name) && !isMooseJawProvince(admin.short_name)) {
+      return false
+    }
+  }
+  const formatted = normalize(result.formatted_address)
+  return formatted.includes(mooseJawName)
+}
+
+const toPlace = (result: GoogleGeocoderResult, fallbackAddress: string): GeocodedPlace | null => {
+  const location = result.geometry?.location
+  if (!location) return null
+  return {
+    address: result.formatted_address ?? fallbackAddress,
+    place_id: result.place_id ?? fallbackAddress,
+    source: 'google',
+    location: { lat: location.lat(), lng: location.lng() },
+    inServiceArea: isMooseJawGoogleResult(result),
+  }
+}
+
+export const createGoogleGeocodingProvider = (
+  apiKey: string,
+  bounds: Bounds | null
+): GeocodingProvider => {
+  const buildGoogleBounds = (googleMaps: typeof window.google) => {
+    if (!bounds) return null
+    return new googleMaps.maps.LatLngBounds(
+      { lat: bounds.minLat, lng: bounds.minLon },
+      { lat: bounds.maxLat, lng: bounds.maxLon }
+    )
+  }
+
+  const geocode = async (request: (googleMaps: typeof window.google) => object) => {
+    const googleMaps = await loadGoogleMaps(apiKey)
+    return new Promise<GoogleGeocoderResult | null>((resolve) => {
+      const geocoder = new googleMaps.maps.Geocoder()
+      geocoder.geocode(
+        request(googleMaps),
+        (results: GoogleGeocoderResult[] | null, status: string) => {
+          if (status !== googleMaps.maps.GeocoderStatus.OK || !results?.length) {
+            resolve(null)
+            return
+          }
+          resolve(results[0])
+        }
+      )
+    })
+  }
+
+  return {
+    source: 'google',
+    label: 'Google Maps',
+    suggest: async (query) => {
+      const googleMaps = await loadGoogleMaps(apiKey)
+      const googleBounds = buildGoogleBounds(googleMaps)
+      return new Promise((resolve) => {
+        const service = new googleMaps.maps.places.AutocompleteService()
+        service.getPlacePredictions(
+          {
+            input: query,
+            componentRestrictions: { country: 'ca' },
+            types: ['address'],
+            bounds: googleBounds ?? undefined,
+            strictBounds: Boolean(googleBounds),
+          },
+          (predictions: GooglePrediction[] | null, status: string) => {
+            if (
+              status !== googleMaps.maps.places.PlacesServiceStatus.OK ||
+              !predictions
+            ) {
+              resolve([])
+              return
+            }
+            resolve(
+              predictions
+                .filter((prediction) => Boolean(prediction.place_id))
+                .map((prediction) => ({
+                  description: prediction.description,
+                  place_id: prediction.place_id as string,
+                  source: 'google' as const,
+                }))
+            )
+          }
+        )
+      })
+    },
+    resolve: async (suggestion) => {
+      const result = await geocode(() => ({ placeId: suggestion.place_id }))
+      return result ? toPlace(result, suggestion.description) : null
+    },
+    geocode: async (query) => {
+      const result = await geocode((googleMaps) => ({
+        address: query,
+        componentRestrictions: { country: 'CA' },
+        bounds: buildGoogleBounds(googleMaps) ?? undefined,
+      }))
+      return result ? toPlace(result, query) : null
+    },
+    reverseGeocode: async (location) => {
+      const result = await geocode(() => ({ location }))
+      return result ? toPlace(result, 'Current location') : null
+    },
+  }
+}
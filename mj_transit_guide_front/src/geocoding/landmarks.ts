@@ -0,0 +1,101 @@
+import type { LatLng } from './provider'
+
+export type Landmark = {
+  id: string
+  name: string
+  aliases: string[]
+  location: LatLng
+}
+
+export const mooseJawLandmarks: Landmark[] = [
+  {
+    id: 'wigmore-hospital',
+    name: 'Dr. F.H. Wigmore Regional Hospital',
+    aliases: ['hospital', 'emergency', 'wigmore'],
+    location: { lat: 50.4196, lng: -105.5262 },
+  },
+  {
+    id: 'sask-polytech',
+    name: 'Saskatchewan Polytechnic Moose Jaw Campus',
+    aliases: ['sask polytech', 'polytechnic', 'siast', 'college'],
+    location: { lat: 50.4036, lng: -105.5492 },
+  },
+  {
+    id: 'town-n-country-mall',
+    name: "Town 'N' Country Mall",
+    aliases: ['mall', 'town and country', 'tnc'],
+    location: { lat: 50.4044, lng: -105.5318 },
+  },
+  {
+    id: 'temple-gardens',
+    name: 'Temple Gardens Hotel & Spa',
+    aliases: ['mineral spa', 'hot pool', 'hotel'],
+    location: { lat: 50.3927, lng: -105.5336 },
+  },
+  {
+    id: 'events-centre',
+    name: 'Moose Jaw Events Centre',
+    aliases: ['mosaic place', 'arena', 'warriors'],
+    location: { lat: 50.3929, lng: -105.5376 },
+  },
+  {
+    id: 'tunnels',
+    name: 'Tunnels of Moose Jaw',
+    aliases: ['tunnels', 'tourism'],
+    location: { lat: 50.3906, lng: -105.5346 },
+  },
+  {
+    id: 'city-hall',
+    name: 'Moose Jaw City Hall',
+    aliases: ['city hall', 'municipal'],
+    location: { lat: 50.3934, lng: -105.5351 },
+  },
+  {
+    id: 'crescent-park',
+    name: 'Crescent Park',
+    aliases: ['park'],
+    location: { lat: 50.3941, lng: -105.5322 },
+  },
+  {
+    id: 'public-library',
+    name: 'Moose Jaw Public Library',
+    aliases: ['library'],
+    location: { lat: 50.3946, lng: -105.5317 },
+  },
+  {
+    id: 'mae-wilson-theatre',
+    name: 'Mae Wilson Theatre',
+    aliases: ['theater', 'cultural centre'],
+    location: { lat: 50.3921, lng: -105.5345 },
+  },
+  {
+    id: 'western-development-museum',
+    name: 'Western Development Museum',
+    aliases: ['wdm', 'museum'],
+    location: { lat: 50.4177, lng: -105.5319 },
+  },
+  {
+    id: 'yara-centre',
+    name: 'Yara Centre',
+    aliases: ['ymca', 'fitness', 'gym'],
+    location: { lat: 50.3916, lng: -105.5697 },
+  },
+  {
+    id: 'superstore',
+    name: 'Real Canadian Superstore',
+    aliases: ['superstore', 'groceries'],
+    location: { lat: 50.4133, lng: -105.531 },
+  },
+  {
+    id: 'walmart',
+    name: 'Walmart Supercentre',
+    aliases: ['walmart'],
+    location: { lat: 50.4114, lng: -105.5211 },
+  },
+  {
+    id: 'wakamow-valley',
+    name: 'Wakamow Valley',
+    aliases: ['trails', 'river park'],
+    location: { lat: 50.3842, lng: -105.5212 },
+  },
+]
@@ -0,0 +1,81 @@
+import type { Stop } from '../core/types'
+import { buildStreetGazetteer, createGazetteerGeocodingProvider } from './gazetteer'
+import { mooseJawLandmarks } from './landmarks'
+import { buildPlaceIndex, searchPlaces, type PlaceEntry } from './placeIndex'
+import type { AddressSuggestion, GeocodedPlace, GeocodingProvider } from './provider'
+
+const maxSuggestions = 8
+const cityLabel = 'Moose Jaw'
+
+const toSuggestion = (entry: PlaceEntry): AddressSuggestion => ({
+  description: entry.kind === 'street' ? `${entry.name}, ${cityLabel}` : entry.name,
+  place_id: entry.id,
+  source: 'local',
+  detail: entry.detail,
+})
+
+export const createLocalGeocodingProvider = (stops: Stop[]): GeocodingProvider => {
+  const gazetteer = buildStreetGazetteer(stops)
+  const streets = createGazetteerGeocodingProvider(gazetteer)
+  const entries = buildPlaceIndex(stops, gazetteer, mooseJawLandmarks)
+  const entryById = new Map(entries.map((entry) => [entry.id, entry]))
+
+  const suggest = async (query: string): Promise<AddressSuggestion[]> => {
+    const suggestions: AddressSuggestion[] = []
+    if (/[&/]|\s(?:and|at)\s/i.test(query)) {
+      const intersections = await streets.suggest(query)
+      suggestions.push(
+        ...intersections.map((suggestion) => ({
+          ...suggestion,
+          source: 'local' as const,
+          detail: 'Intersection',
+        }))
+      )
+    }
+    const numberMatch = query.trim().match(/^(\d+)\s+(.+)$/)
+    if (numberMatch) {
+      searchPlaces(entries, numberMatch[2], 3, ['street']).forEach(({ entry }) => {
+        suggestions.push({
+          description: `${numberMatch[1]} ${entry.name}, ${cityLabel}`,
+          place_id: `${entry.id}:${numberMatch[1]}`,
+          source: 'local',
+          detail: 'Street address',
+        })
+      })
+    }
+    searchPlaces(entries, query, maxSuggestions).forEach(({ entry }) => {
+      suggestions.push(toSuggestion(entry))
+    })
+    return suggestions.slice(0, maxSuggestions)
+  }
+
+  const resolve = async (suggestion: AddressSuggestion): Promise<GeocodedPlace | null> => {
+    const entry = entryById.get(suggestion.place_id)
+    if (entry && entry.kind !== 'street') {
+      return {
+        address: entry.kind === 'stop' ? `${entry.name} (${entry.detail})` : entry.name,
+        place_id: entry.id,
+        source: 'local',
+        location: entry.location,
+        inServiceArea: true,
+      }
+    }
+    const place = await streets.resolve({ ...suggestion, source: 'gazetteer' })
+    return place ? { ...place, source: 'local' } : null
+  }
+
+  return {
+    source: 'local',
+    label: 'the offline stop and landmark index',
+    suggest,
+    resolve,
+    geocode: async (query) => {
+      const [first] = await suggest(query)
+      return first ? resolve(first) : null
+    },
+    reverseGeocode: async (location) => {
+      const place = await streets.reverseGeocode(location)
+      return place ? { ...place, source: 'local' } : null
+    },
+  }
+}
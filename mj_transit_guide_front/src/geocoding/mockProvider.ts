@@ -0,0 +1,32 @@
+import type { GeocodedPlace, GeocodingProvider, LatLng } from './provider'
+
+const squaredDistance = (a: LatLng, b: LatLng) => (a.lat - b.lat) ** 2 + (a.lng - b.lng) ** 2
+
+export const createMockGeocodingProvider = (places: GeocodedPlace[]): GeocodingProvider => {
+  const matches = (query: string) => {
+    const normalized = query.trim().toLowerCase()
+    return places.filter((place) => place.address.toLowerCase().includes(normalized))
+  }
+
+  return {
+    source: 'mock',
+    label: 'a fixed list of test places',
+    suggest: async (query) =>
+      matches(query).map((place) => ({
+        description: place.address,
+        place_id: place.place_id,
+        source: 'mock' as const,
+      })),
+    resolve: async (suggestion) =>
+      places.find((place) => place.place_id === suggestion.place_id) ?? null,
+    geocode: async (query) => matches(query)[0] ?? null,
+    reverseGeocode: async (location) => {
+      if (places.length === 0) return null
+      return places.reduce((best, place) =>
+        squaredDistance(place.location, location) < squaredDistance(best.location, location)
+          ? place
+          : best
+      )
+    },
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { parseGtfsFeed } from '../core'
+import { loadBundledFeedFiles } from '../test/gtfsFixtures'
+import { buildStreetGazetteer } from './gazetteer'
+import { mooseJawLandmarks } from './landmarks'
+import { buildPlaceIndex, searchPlaces } from './placeIndex'
+
+describe('searchPlaces', () => {
+  const { stops } = parseGtfsFeed(loadBundledFeedFiles())
+  const entries = buildPlaceIndex(stops, buildStreetGazetteer(stops), mooseJawLandmarks)
+  const names = (query: string) =>
+    searchPlaces(entries, query, 10, ['stop']).map((match) => match.entry.name)
+
+  it('finds stops by the start of each word', () => {
+    expect(names('high st w main')).toContain('High St W/Main St N')
+  })
+
+  it('forgives a typo in a longer word', () => {
+    expect(names('hihg st w')).toContain('High St W/Main St N')
+  })
+
+  it('forgives a typo in a three-letter word when the other words match', () => {
+    expect(names('hgh st w')).toContain('High St W/Main St N')
+  })
+
+  it('does not guess from a three-letter typo alone or next to another typo', () => {
+    expect(names('hgh')).toEqual([])
+    expect(names('hgh st w mian')).toEqual([])
+  })
+})
@@ -0,0 +1,132 @@
+import type { Stop } from '../core/types'
+import { normalizeStreetName, type StreetGazetteer } from './gazetteer'
+import type { Landmark } from './landmarks'
+import type { LatLng } from './provider'
+
+export type PlaceKind = 'landmark' | 'stop' | 'street'
+
+export type PlaceEntry = {
+  id: string
+  kind: PlaceKind
+  name: string
+  detail: string
+  location: LatLng
+  tokens: string[]
+}
+
+export type PlaceMatch = {
+  entry: PlaceEntry
+  score: number
+}
+
+const kindRank: Record<PlaceKind, number> = { landmark: 0, street: 1, stop: 2 }
+
+export const tokenize = (value: string) =>
+  normalizeStreetName(value.replace(/['’]/g, '').replace(/[^\w\s]/g, ' '))
+    .split(' ')
+    .filter(Boolean)
+
+// Optimal string alignment distance, so a swapped pair of letters costs one edit.
+const editDistance = (a: string, b: string) => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Three-letter tokens get one edit, but searchPlaces only accepts it when every other query token
+// matches exactly: "hgh st w" finds High St W, while "hgh" on its own finds nothing.
+const shortTokenLength = 4
+
+const allowedEdits = (token: string) => {
+  if (token.length < 3 || /^\d+$/.test(token)) return 0
+  return token.length < 7 ? 1 : 2
+}
+
+const tokenCost = (queryToken: string, entryToken: string) => {
+  if (entryToken.startsWith(queryToken)) return 0
+  const allowed = allowedEdits(queryToken)
+  if (allowed === 0) return Number.POSITIVE_INFINITY
+  const distance = Math.min(
+    editDistance(queryToken, entryToken),
+    editDistance(queryToken, entryToken.slice(0, queryToken.length))
+  )
+  return distance <= allowed ? distance : Number.POSITIVE_INFINITY
+}
+
+export const buildPlaceIndex = (
+  stops: Stop[],
+  gazetteer: StreetGazetteer,
+  landmarks: Landmark[]
+): PlaceEntry[] => {
+  const entries: PlaceEntry[] = landmarks.map((landmark) => ({
+    id: `landmark:${landmark.id}`,
+    kind: 'landmark',
+    name: landmark.name,
+    detail: 'Landmark',
+    location: landmark.location,
+    tokens: [...new Set([landmark.name, ...landmark.aliases].flatMap(tokenize))],
+  }))
+  stops.forEach((stop) => {
+    entries.push({
+      id: `stop:${stop.stop_id}`,
+      kind: 'stop',
+      name: stop.stop_name,
+      detail: `Stop #${stop.stop_code}`,
+      location: { lat: stop.stop_lat, lng: stop.stop_lon },
+      tokens: [...tokenize(stop.stop_name), stop.stop_code],
+    })
+  })
+  gazetteer.streets.forEach((street) => {
+    entries.push({
+      id: `street:${street.key}`,
+      kind: 'street',
+      name: street.name,
+      detail: 'Street',
+      location: { lat: street.points[0].lat, lng: street.points[0].lng },
+      tokens: tokenize(street.name),
+    })
+  })
+  return entries
+}
+
+export const searchPlaces = (
+  entries: PlaceEntry[],
+  query: string,
+  limit: number,
+  kinds?: PlaceKind[]
+): PlaceMatch[] => {
+  const queryTokens = tokenize(query)
+  if (queryTokens.length === 0) return []
+  const matches: PlaceMatch[] = []
+  entries.forEach((entry) => {
+    if (kinds && !kinds.includes(entry.kind)) return
+    let score = 0
+    let shortTokenEdits = 0
+    for (const queryToken of queryTokens) {
+      const cost = Math.min(...entry.tokens.map((token) => tokenCost(queryToken, token)))
+      if (!Number.isFinite(cost)) return
+      if (cost > 0 && queryToken.length < shortTokenLength) shortTokenEdits += 1
+      score += cost
+    }
+    if (shortTokenEdits > 0 && (queryTokens.length === 1 || score > 1)) return
+    matches.push({ entry, score })
+  })
+  return matches
+    .sort(
+      (a, b) =>
+        a.score - b.score ||
+        kindRank[a.entry.kind] - kindRank[b.entry.kind] ||
+        a.entry.name.localeCompare(b.entry.name)
+    )
+    .slice(0, limit)
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { createMockGeocodingProvider } from './mockProvider'
+import {
+  createMergedGeocodingProvider,
+  type GeocodedPlace,
+  type GeocodingProvider,
+} from './provider'
+
+const place = (placeId: string, address: string, lat = 50.39, lng = -105.55): GeocodedPlace => ({
+  address,
+  place_id: placeId,
+  source: 'mock',
+  location: { lat, lng },
+  inServiceArea: true,
+})
+
+const localPlaces = [
+  place('city-hall', '228 Main St N', 50.393, -105.535),
+  place('library', '461 Langdon Crescent', 50.401, -105.54),
+]
+
+const offline = new Error('offline')
+
+// A primary provider that is unreachable, as Google is without a network.
+const unreachable: GeocodingProvider = {
+  source: 'google',
+  label: 'Google Maps',
+  suggest: () => Promise.reject(offline),
+  resolve: () => Promise.reject(offline),
+  geocode: () => Promise.reject(offline),
+  reverseGeocode: () => Promise.reject(offline),
+}
+
+describe('createMergedGeocodingProvider', () => {
+  const local = createMockGeocodingProvider(localPlaces)
+
+  it('suggests local places when the primary provider rejects', async () => {
+    const merged = createMergedGeocodingProvider(unreachable, local)
+    const suggestions = await merged.suggest('main')
+    expect(suggestions.map((suggestion) => suggestion.place_id)).toEqual(['city-hall'])
+  })
+
+  it('lists a few local suggestions ahead of the primary results', async () => {
+    const googlePlaces = [place('g1', 'Main St N, Moose Jaw'), place('g2', 'Main St S')]
+    const primary = { ...createMockGeocodingProvider(googlePlaces), source: 'google' as const }
+    const manyLocal = createMockGeocodingProvider(
+      Array.from({ length: 6 }, (_, index) => place(`local-${index}`, `${index} Main St N`))
+    )
+    const suggestions = await createMergedGeocodingProvider(primary, manyLocal).suggest('main')
+    expect(suggestions.map((suggestion) => suggestion.place_id)).toEqual([
+      'local-0',
+      'local-1',
+      'local-2',
+      'local-3',
+      'g1',
+      'g2',
+    ])
+  })
+
+  it('geocodes locally when the primary provider rejects or finds nothing', async () => {
+    const empty = { ...createMockGeocodingProvider([]), source: 'google' as const }
+    for (const primary of [unreachable, empty]) {
+      const merged = createMergedGeocodingProvider(primary, local)
+      await expect(merged.geocode('langdon')).resolves.toBe(localPlaces[1])
+    }
+  })
+
+  it('resolves and reverse geocodes locally when the primary provider rejects', async () => {
+    const merged = createMergedGeocodingProvider(unreachable, local)
+    await expect(
+      merged.resolve({ description: '228 Main St N', place_id: 'city-hall', source: 'google' })
+    ).resolves.toBe(localPlaces[0])
+    await expect(merged.reverseGeocode({ lat: 50.4, lng: -105.54 })).resolves.toBe(localPlaces[1])
+  })
+})
@@ -0,0 +1,59 @@
+export type GeocodingSource = 'google' | 'gazetteer' | 'local' | 'mock'
+
+export type LatLng = {
+  lat: number
+  lng: number
+}
+
+export type AddressSuggestion = {
+  description: string
+  place_id: string
+  source: GeocodingSource
+  detail?: string
+}
+
+export type GeocodedPlace = {
+  address: string
+  place_id: string
+  source: GeocodingSource
+  location: LatLng
+  inServiceArea: boolean
+}
+
+export type GeocodingProvider = {
+  source: GeocodingSource
+  label: string
+  suggest: (query: string) => Promise<AddressSuggestion[]>
+  resolve: (suggestion: AddressSuggestion) => Promise<GeocodedPlace | null>
+  geocode: (query: string) => Promise<GeocodedPlace | null>
+  reverseGeocode: (location: LatLng) => Promise<GeocodedPlace | null>
+}
+
+const maxMergedLocalSuggestions = 4
+
+export const createMergedGeocodingProvider = (
+  primary: GeocodingProvider,
+  local: GeocodingProvider
+): GeocodingProvider => ({
+  source: primary.source,
+  label: `${primary.label} and ${local.label}`,
+  suggest: async (query) => {
+    const [primaryResults, localResults] = await Promise.all([
+      primary.suggest(query).catch(() => [] as AddressSuggestion[]),
+      local.suggest(query),
+    ])
+    if (primaryResults.length === 0) return localResults
+    return [...localResults.slice(0, maxMergedLocalSuggestions), ...primaryResults]
+  },
+  resolve: (suggestion) =>
+    suggestion.source === local.source
+      ? local.resolve(suggestion)
+      : primary.resolve(suggestion).catch(() => local.resolve(suggestion)),
+  geocode: (query) =>
+    primary
+      .geocode(query)
+      .catch(() => null)
+      .then((place) => place ?? local.geocode(query)),
+  reverseGeocode: (location) =>
+    primary.reverseGeocode(location).catch(() => local.reverseGeocode(location)),
+})
@@ -0,0 +1,48 @@
+const googleMapsScriptId = 'google-maps-js'
+const googleMapsLibraries = 'places'
+const googleMapsVersion = 'weekly'
+
+let googleMapsPromise: Promise<typeof window.google> | null = null
+
+const injectGoogleMapsScript = (apiKey: string) =>
+  new Promise<typeof window.google>((resolve, reject) => {
+    if (window.google?.maps?.places) {
+      resolve(window.google)
+      return
+    }
+    const existingScript = document.getElementById(googleMapsScriptId) as
+      | HTMLScriptElement
+      | null
+    if (existingScript) {
+      existingScript.addEventListener('load', () => resolve(window.google))
+      existingScript.addEventListener('error', () =>
+        reject(new Error('Failed to load Google Maps.'))
+      )
+      return
+    }
+    const script = document.createElement('script')
+    script.id = googleMapsScriptId
+    script.async = true
+    script.defer = true
+    const params = new URLSearchParams({
+      key: apiKey,
+      libraries: googleMapsLibraries,
+      v: googleMapsVersion,
+      region: 'CA',
+      language: 'en',
+    })
+    script.src = `https://maps.googleapis.com/maps/api/js?${params.toString()}`
+    script.onload = () => resolve(window.google)
+    script.onerror = () => reject(new Error('Failed to load Google Maps.'))
+    document.head.appendChild(script)
+  })
+
+export const loadGoogleMaps = (apiKey: string) => {
+  if (!googleMapsPromise) {
+    googleMapsPromise = injectGoogleMapsScript(apiKey).catch((error: unknown) => {
+      googleMapsPromise = null
+      throw error
+    })
+  }
+  return googleMapsPromise
+}
@@ -0,0 +1,54 @@
+import { gtfsFeedFormat, type GtfsFeed } from '../core/gtfsFeed'
+
+export type CachedGtfsFeed = {
+  format: number
+  version: string | null
+  savedAt: number
+  feed: GtfsFeed
+}
+
+const databaseName = 'mj-transit-guide'
+const feedStore = 'gtfs-feeds'
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(feedStore)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(feedStore, mode).objectStore(feedStore))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    database.close()
+  }
+}
+
+// One entry per feed source; it is reused for as long as the feed_version it was parsed from
+// is still the one being published.
+export const readCachedFeed = async (sourceKey: string) => {
+  const cached = await runRequest<CachedGtfsFeed | undefined>('readonly', (store) =>
+    store.get(sourceKey)
+  )
+  return cached && cached.format === gtfsFeedFormat ? cached : null
+}
+
+export const writeCachedFeed = (sourceKey: string, feed: GtfsFeed) =>
+  runRequest('readwrite', (store) =>
+    store.put(
+      {
+        format: gtfsFeedFormat,
+        version: feed.feedVersion,
+        savedAt: Date.now(),
+        feed,
+      } satisfies CachedGtfsFeed,
+      sourceKey
+    )
+  )
@@ -0,0 +1,90 @@
+import { gtfsFileNames, parseFeedVersion, requiredGtfsFiles, type GtfsFiles } from '../core/gtfsFeed'
+import {
+  getZipDataOffset,
+  inflateZipEntry,
+  readZipDirectory,
+  readZipTextFiles,
+  zipEntryBaseName,
+  zipLocalHeaderSize,
+  zipTailSize,
+} from './zip'
+
+export type GtfsSource =
+  | { kind: 'zip'; url: string }
+  | { kind: 'files'; urls: Record<string, string> }
+
+export type FeedVersionProbe = {
+  version: string | null
+  // Set when the server ignored the range request and sent the whole archive.
+  archive?: Uint8Array
+}
+
+export const gtfsSourceKey = (source: GtfsSource) =>
+  source.kind === 'zip' ? source.url : source.urls['stops.txt']
+
+const fetchOrThrow = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, { cache: 'no-cache', ...init })
+  if (!response.ok) throw new Error(`GTFS request for ${url} failed with ${response.status}.`)
+  return response
+}
+
+const fetchRange = async (url: string, start: number, end: number) =>
+  new Uint8Array(
+    await (await fetchOrThrow(url, { headers: { Range: `bytes=${start}-${end - 1}` } })).arrayBuffer()
+  )
+
+// Reads feed_info.txt out of a remote archive with range requests, so an unchanged feed
+// costs a few kilobytes instead of the whole download.
+const probeZipVersion = async (url: string): Promise<FeedVersionProbe> => {
+  const response = await fetchOrThrow(url, { headers: { Range: `bytes=-${zipTailSize}` } })
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  if (response.status !== 206) {
+    const files = await readZipTextFiles(bytes, (name) => name === 'feed_info.txt')
+    return { version: parseFeedVersion(files['feed_info.txt']), archive: bytes }
+  }
+  const totalSize = Number(response.headers.get('content-range')?.split('/')[1])
+  if (!Number.isFinite(totalSize)) return { version: null }
+  const entry = readZipDirectory(bytes, totalSize - bytes.length).find(
+    (item) => zipEntryBaseName(item) === 'feed_info.txt'
+  )
+  if (!entry) return { version: null }
+  const header = await fetchRange(
+    url,
+    entry.localHeaderOffset,
+    entry.localHeaderOffset + zipLocalHeaderSize
+  )
+  const start = entry.localHeaderOffset + getZipDataOffset(header)
+  const data = await fetchRange(url, start, start + entry.compressedSize)
+  return { version: parseFeedVersion(new TextDecoder().decode(await inflateZipEntry(data, entry))) }
+}
+
+const probeFilesVersion = async (urls: Record<string, string>): Promise<FeedVersionProbe> => {
+  if (!urls['feed_info.txt']) return { version: null }
+  const response = await fetch(urls['feed_info.txt'], { cache: 'no-cache' })
+  return { version: response.ok ? parseFeedVersion(await response.text()) : null }
+}
+
+export const probeFeedVersion = (source: GtfsSource) =>
+  source.kind === 'zip' ? probeZipVersion(source.url) : probeFilesVersion(source.urls)
+
+const downloadFiles = async (urls: Record<string, string>) => {
+  const files: GtfsFiles = {}
+  await Promise.all(
+    gtfsFileNames.map(async (name) => {
+      if (!urls[name]) return
+      const response = await fetch(urls[name], { cache: 'no-cache' })
+      if (response.ok) {
+        files[name] = await response.text()
+      } else if (requiredGtfsFiles.includes(name)) {
+        throw new Error(`GTFS request for ${name} failed with ${response.status}.`)
+      }
+    })
+  )
+  return files
+}
+
+export const downloadFeedFiles = async (source: GtfsSource, archive?: Uint8Array) => {
+  if (source.kind === 'files') return downloadFiles(source.urls)
+  const bytes = archive ?? new Uint8Array(await (await fetchOrThrow(source.url)).arrayBuffer())
+  return readZipTextFiles(bytes, (name) => gtfsFileNames.includes(name))
+}
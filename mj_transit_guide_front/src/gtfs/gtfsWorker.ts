@@ -0,0 +1,51 @@
+import { parseGtfsFeed, type GtfsFeed } from '../core/gtfsFeed'
+import { readCachedFeed, writeCachedFeed } from './feedCache'
+import {
+  downloadFeedFiles,
+  gtfsSourceKey,
+  probeFeedVersion,
+  type FeedVersionProbe,
+  type GtfsSource,
+} from './fetchFeed'
+
+export type GtfsFeedOrigin = 'network' | 'cache' | 'offline-cache'
+
+export type GtfsWorkerRequest = {
+  source: GtfsSource
+}
+
+export type GtfsWorkerResponse =
+  | { type: 'loaded'; feed: GtfsFeed; origin: GtfsFeedOrigin }
+  | { type: 'error'; message: string }
+
+const loadFeed = async (source: GtfsSource) => {
+  const key = gtfsSourceKey(source)
+  const cached = await readCachedFeed(key).catch(() => null)
+  try {
+    const probe = await probeFeedVersion(source).catch(
+      (): FeedVersionProbe => ({ version: null })
+    )
+    if (cached && probe.version && probe.version === cached.version) {
+      return { feed: cached.feed, origin: 'cache' as const }
+    }
+    const feed = parseGtfsFeed(await downloadFeedFiles(source, probe.archive))
+    await writeCachedFeed(key, feed).catch(() => undefined)
+    return { feed, origin: 'network' as const }
+  } catch (error) {
+    if (cached) return { feed: cached.feed, origin: 'offline-cache' as const }
+    throw error
+  }
+}
+
+self.onmessage = async (event: MessageEvent<GtfsWorkerRequest>) => {
+  let response: GtfsWorkerResponse
+  try {
+    response = { type: 'loaded', ...(await loadFeed(event.data.source)) }
+  } catch (error) {
+    response = {
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Unable to load the GTFS feed.',
+    }
+  }
+  self.postMessage(response)
+}
@@ -0,0 +1,56 @@
+import { gtfsFileNames } from '../core/gtfsFeed'
+import type { GtfsSource } from './fetchFeed'
+import type { GtfsWorkerRequest, GtfsWorkerResponse } from './gtfsWorker'
+
+export type { GtfsSource } from './fetchFeed'
+export type { GtfsFeedOrigin } from './gtfsWorker'
+
+// The bundled feed is emitted as static assets and fetched like any other source.
+const bundledFeedUrls = import.meta.glob('../../MJ_transit_GTFS/*.txt', {
+  query: '?url',
+  import: 'default',
+  eager: true,
+}) as Record<string, string>
+
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href
+
+// A URL ending in .zip is read as an archive; anything else is a folder holding the .txt files.
+export const resolveGtfsSource = (url?: string): GtfsSource => {
+  if (url && /\.zip($|\?)/i.test(url)) return { kind: 'zip', url: absoluteUrl(url) }
+  if (url) {
+    const base = url.endsWith('/') ? url : `${url}/`
+    return {
+      kind: 'files',
+      urls: Object.fromEntries(gtfsFileNames.map((name) => [name, absoluteUrl(base + name)])),
+    }
+  }
+  return {
+    kind: 'files',
+    urls: Object.fromEntries(
+      Object.entries(bundledFeedUrls).map(([path, assetUrl]) => [
+        path.split('/').pop() ?? path,
+        absoluteUrl(assetUrl),
+      ])
+    ),
+  }
+}
+
+// Downloading, unzipping and parsing all happen in a worker so the page stays responsive.
+export const loadGtfsFeed = (source: GtfsSource, signal?: AbortSignal) =>
+  new Promise<Extract<GtfsWorkerResponse, { type: 'loaded' }>>((resolve, reject) => {
+    const worker = new Worker(new URL('./gtfsWorker.ts', import.meta.url), { type: 'module' })
+    signal?.addEventListener('abort', () => {
+      worker.terminate()
+      reject(new DOMException('The GTFS load was aborted.', 'AbortError'))
+    })
+    worker.onmessage = (event: MessageEvent<GtfsWorkerResponse>) => {
+      worker.terminate()
+      if (event.data.type === 'loaded') resolve(event.data)
+      else reject(new Error(event.data.message))
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'The GTFS worker failed to start.'))
+    }
+    worker.postMessage({ source } satisfies GtfsWorkerRequest)
+  })
@@ -0,0 +1,120 @@
+import { deflateRawSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { readZipDirectory, readZipTextFiles, zipEntryBaseName } from './zip'
+
+type FixtureEntry = { name: string; text: string; deflate?: boolean }
+
+// Writes a ZIP archive by hand. CRCs are left at zero because the reader does not check them.
+const buildZip = (entries: FixtureEntry[], directoryOffsetOverride?: number) => {
+  const encoder = new TextEncoder()
+  const locals: Uint8Array[] = []
+  const headers: Uint8Array[] = []
+  let offset = 0
+  entries.forEach(({ name, text, deflate }) => {
+    const nameBytes = encoder.encode(name)
+    const raw = encoder.encode(text)
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw
+    const method = deflate ? 8 : 0
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(8, method, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, raw.length, true)
+    localView.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const header = new Uint8Array(46 + nameBytes.length)
+    const headerView = new DataView(header.buffer)
+    headerView.setUint32(0, 0x02014b50, true)
+    headerView.setUint16(10, method, true)
+    headerView.setUint32(20, data.length, true)
+    headerView.setUint32(24, raw.length, true)
+    headerView.setUint16(28, nameBytes.length, true)
+    headerView.setUint32(42, offset, true)
+    header.set(nameBytes, 46)
+
+    locals.push(local)
+    headers.push(header)
+    offset += local.length
+  })
+
+  const directorySize = headers.reduce((total, header) => total + header.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, directoryOffsetOverride ?? offset, true)
+
+  const parts = [...locals, ...headers, end]
+  const archive = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  parts.forEach((part) => {
+    archive.set(part, position)
+    position += part.length
+  })
+  return archive
+}
+
+const stopsText = 'stop_id,stop_name\n1,City Hall\n'
+const routesText = 'route_id,route_short_name\n1,1\n'.repeat(20)
+
+const archive = buildZip([
+  { name: 'stops.txt', text: stopsText },
+  { name: 'gtfs/routes.txt', text: routesText, deflate: true },
+  { name: 'gtfs/', text: '' },
+])
+
+describe('readZipDirectory', () => {
+  it('lists stored and deflated entries', () => {
+    const entries = readZipDirectory(archive)
+    expect(entries.map((entry) => [entry.name, entry.method])).toEqual([
+      ['stops.txt', 0],
+      ['gtfs/routes.txt', 8],
+      ['gtfs/', 0],
+    ])
+    expect(entries[1].uncompressedSize).toBe(routesText.length)
+    expect(entries[1].compressedSize).toBeLessThan(routesText.length)
+    expect(entries.map(zipEntryBaseName)).toEqual(['stops.txt', 'routes.txt', ''])
+  })
+
+  it('reads the directory from the end of the archive alone', () => {
+    const tailOffset = readZipDirectory(archive)[2].localHeaderOffset
+    const entries = readZipDirectory(archive.subarray(tailOffset), tailOffset)
+    expect(entries.map((entry) => entry.name)).toEqual(['stops.txt', 'gtfs/routes.txt', 'gtfs/'])
+    const endOffset = archive.length - 22
+    expect(() => readZipDirectory(archive.subarray(endOffset), endOffset)).toThrow(
+      'starts before the bytes provided'
+    )
+  })
+
+  it('rejects files that are not ZIP archives', () => {
+    const text = new TextEncoder().encode('stop_id,stop_name\n'.repeat(4))
+    expect(() => readZipDirectory(text)).toThrow('not a valid ZIP file')
+    expect(() => readZipDirectory(new Uint8Array(0))).toThrow('not a valid ZIP file')
+  })
+
+  it('rejects ZIP64 archives', () => {
+    const zip64 = buildZip([{ name: 'stops.txt', text: stopsText }], 0xffffffff)
+    expect(() => readZipDirectory(zip64)).toThrow('ZIP64 archives are not supported')
+  })
+})
+
+describe('readZipTextFiles', () => {
+  it('inflates entries and names them without their folder', async () => {
+    await expect(readZipTextFiles(archive)).resolves.toEqual({
+      'stops.txt': stopsText,
+      'routes.txt': routesText,
+    })
+  })
+
+  it('only reads the files asked for', async () => {
+    await expect(readZipTextFiles(archive, (name) => name === 'routes.txt')).resolves.toEqual({
+      'routes.txt': routesText,
+    })
+  })
+})
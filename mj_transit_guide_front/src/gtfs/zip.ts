@@ -0,0 +1,99 @@
+// A minimal ZIP reader: stored and deflated entries only, no ZIP64. That covers the archives
+// transit agencies publish, and deflate is handled by the browser's DecompressionStream.
+
+export type ZipEntry = {
+  name: string
+  method: number
+  compressedSize: number
+  uncompressedSize: number
+  localHeaderOffset: number
+}
+
+const endOfDirectorySignature = 0x06054b50
+const directoryHeaderSignature = 0x02014b50
+const localHeaderSignature = 0x04034b50
+
+export const zipLocalHeaderSize = 30
+
+// The end-of-directory record is 22 bytes plus a comment of up to 64 KB.
+export const zipTailSize = 22 + 0xffff
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+export const zipEntryBaseName = (entry: ZipEntry) => entry.name.split('/').pop() ?? entry.name
+
+// `bytes` may be just the end of the archive, in which case `bytesOffset` is where it starts.
+export const readZipDirectory = (bytes: Uint8Array, bytesOffset = 0): ZipEntry[] => {
+  const view = viewOf(bytes)
+  let end = -1
+  for (let index = bytes.length - 22; index >= Math.max(0, bytes.length - zipTailSize); index -= 1) {
+    if (view.getUint32(index, true) === endOfDirectorySignature) {
+      end = index
+      break
+    }
+  }
+  if (end < 0) throw new Error('The GTFS archive is not a valid ZIP file.')
+
+  const count = view.getUint16(end + 10, true)
+  const directoryOffset = view.getUint32(end + 16, true)
+  if (directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported.')
+  let position = directoryOffset - bytesOffset
+  if (position < 0) throw new Error('The ZIP directory starts before the bytes provided.')
+
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+  for (let index = 0; index < count; index += 1) {
+    if (view.getUint32(position, true) !== directoryHeaderSignature) {
+      throw new Error('The ZIP directory is corrupt.')
+    }
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    entries.push({
+      name: decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      uncompressedSize: view.getUint32(position + 24, true),
+      localHeaderOffset: view.getUint32(position + 42, true),
+    })
+    position += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+// Returns how far past the local header the entry's data begins.
+export const getZipDataOffset = (header: Uint8Array) => {
+  const view = viewOf(header)
+  if (view.getUint32(0, true) !== localHeaderSignature) {
+    throw new Error('The ZIP entry header is corrupt.')
+  }
+  return zipLocalHeaderSize + view.getUint16(26, true) + view.getUint16(28, true)
+}
+
+export const inflateZipEntry = async (data: Uint8Array, entry: ZipEntry) => {
+  if (entry.method === 0) return data
+  if (entry.method !== 8) {
+    throw new Error(`${entry.name} uses an unsupported ZIP compression method.`)
+  }
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export const readZipTextFiles = async (
+  archive: Uint8Array,
+  include: (name: string) => boolean = () => true
+) => {
+  const decoder = new TextDecoder()
+  const files: Record<string, string> = {}
+  for (const entry of readZipDirectory(archive)) {
+    const name = zipEntryBaseName(entry)
+    if (!name || !include(name)) continue
+    const start =
+      entry.localHeaderOffset + getZipDataOffset(archive.subarray(entry.localHeaderOffset))
+    const data = archive.subarray(start, start + entry.compressedSize)
+    files[name] = decoder.decode(await inflateZipEntry(data, entry))
+  }
+  return files
+}
@@ -0,0 +1,79 @@
+import { hasEmphasis, markerStyles, type MapRendererFactory } from './mapLayer'
+
+type GoogleOverlay = { setMap: (map: unknown) => void }
+
+export const createGoogleMapRendererFactory =
+  (googleMaps: typeof window.google): MapRendererFactory =>
+  (container) => {
+    const map = new googleMaps.maps.Map(container, {
+      disableDefaultUI: true,
+      zoomControl: true,
+      gestureHandling: 'cooperative',
+      clickableIcons: false,
+    })
+    let overlays: GoogleOverlay[] = []
+
+    const clearOverlays = () => {
+      overlays.forEach((overlay) => overlay.setMap(null))
+      overlays = []
+    }
+
+    return {
+      render: (scene) => {
+        clearOverlays()
+        const bounds = new googleMaps.maps.LatLngBounds()
+        const dimmed = hasEmphasis(scene)
+
+        scene.polylines.forEach((line) => {
+          const path = line.points.map((point) => ({ lat: point.lat, lng: point.lon }))
+          path.forEach((point) => bounds.extend(point))
+          overlays.push(
+            new googleMaps.maps.Polyline({
+              map,
+              path,
+              strokeColor: line.color,
+              strokeWeight: line.emphasis ? 6 : 3,
+              strokeOpacity: line.dashed ? 0 : dimmed && !line.emphasis ? 0.35 : 0.9,
+              icons: line.dashed
+                ? [
+                    {
+                      icon: { path: 'M 0,-1 0,1', strokeOpacity: 0.9, scale: 3 },
+                      offset: '0',
+                      repeat: '12px',
+                    },
+                  ]
+                : undefined,
+            })
+          )
+        })
+
+        scene.markers.forEach((marker) => {
+          const style = markerStyles[marker.kind]
+          const position = { lat: marker.position.lat, lng: marker.position.lon }
+          bounds.extend(position)
+          overlays.push(
+            new googleMaps.maps.Marker({
+              map,
+              position,
+              title: marker.label,
+              zIndex: marker.kind === 'stop' ? 1 : 10,
+              icon: {
+                path: googleMaps.maps.SymbolPath.CIRCLE,
+                scale: style.radius,
+                fillColor: marker.fill ?? style.fill,
+                fillOpacity: 1,
+                strokeColor: style.stroke,
+                strokeWeight: 2,
+              },
+            })
+          )
+        })
+
+        if (!bounds.isEmpty()) map.fitBounds(bounds)
+      },
+      destroy: () => {
+        clearOverlays()
+        container.replaceChildren()
+      },
+    }
+  }
@@ -0,0 +1,178 @@
+import {
+  sliceShape,
+  type CandidateTrip,
+  type Route,
+  type ShapePoint,
+  type Stop,
+  type TransferStep,
+  type Trip,
+  type VehicleLocation,
+} from '../core'
+import { walkingColor, type MapMarker, type MapPolyline, type MapScene } from './mapLayer'
+
+export type ScenePlace = {
+  address: string
+  location: { lat: number; lng: number }
+}
+
+export type ItinerarySceneInput = {
+  routes: Route[]
+  trips: Trip[]
+  stops: Stop[]
+  shapesById: Map<string, ShapePoint[]>
+  legs: CandidateTrip[]
+  transfers: TransferStep[]
+  origin: ScenePlace | null
+  destination: ScenePlace | null
+  vehicles: VehicleLocation[]
+}
+
+const defaultRouteColor = '#1f4e5f'
+
+const routeColor = (route: Route | undefined) =>
+  route?.route_color ? `#${route.route_color}` : defaultRouteColor
+
+const stopPoint = (stop: Stop) => ({ lat: stop.stop_lat, lon: stop.stop_lon })
+
+export const buildItineraryScene = ({
+  routes,
+  trips,
+  stops,
+  shapesById,
+  legs,
+  transfers,
+  origin,
+  destination,
+  vehicles,
+}: ItinerarySceneInput): MapScene => {
+  const legShapes = legs.map((leg) => {
+    const shape = shapesById.get(leg.trip.shape_id)
+    return shape && leg.boardShapeDistanceKm !== null && leg.alightShapeDistanceKm !== null
+      ? sliceShape(shape, leg.boardShapeDistanceKm, leg.alightShapeDistanceKm)
+      : []
+  })
+  // Legs drawn along their own slice of the shape leave the rest of the route dimmed.
+  const highlightedRouteIds = new Set(
+    legs.filter((_, index) => legShapes[index].length === 0).map((leg) => leg.trip.route_id)
+  )
+  const shapeIdsByRoute = new Map<string, Set<string>>()
+  trips.forEach((trip) => {
+    if (!trip.shape_id) return
+    const shapeIds = shapeIdsByRoute.get(trip.route_id) ?? new Set<string>()
+    shapeIds.add(trip.shape_id)
+    shapeIdsByRoute.set(trip.route_id, shapeIds)
+  })
+
+  const polylines: MapPolyline[] = []
+  routes.forEach((route) => {
+    shapeIdsByRoute.get(route.route_id)?.forEach((shapeId) => {
+      const points = shapesById.get(shapeId)
+      if (!points) return
+      polylines.push({
+        id: `${route.route_id}-${shapeId}`,
+        color: routeColor(route),
+        points,
+        emphasis: highlightedRouteIds.has(route.route_id),
+      })
+    })
+  })
+
+  legs.forEach((leg, index) => {
+    if (legShapes[index].length === 0) return
+    polylines.push({
+      id: `leg-${index}-${leg.trip.trip_id}`,
+      color: routeColor(leg.route),
+      points: legShapes[index],
+      emphasis: true,
+    })
+  })
+
+  const markers: MapMarker[] = stops.map((stop) => ({
+    id: stop.stop_id,
+    position: stopPoint(stop),
+    label: stop.stop_name,
+    kind: 'stop',
+  }))
+  const firstLeg = legs[0]
+  const lastLeg = legs[legs.length - 1]
+
+  if (origin) {
+    const position = { lat: origin.location.lat, lon: origin.location.lng }
+    markers.push({ id: 'origin', position, label: origin.address, kind: 'origin' })
+    if (firstLeg) {
+      polylines.push({
+        id: 'walk-origin',
+        color: walkingColor,
+        points: [position, stopPoint(firstLeg.boardStop)],
+        dashed: true,
+      })
+    }
+  }
+  if (destination) {
+    const position = { lat: destination.location.lat, lon: destination.location.lng }
+    markers.push({ id: 'destination', position, label: destination.address, kind: 'destination' })
+    if (lastLeg) {
+      polylines.push({
+        id: 'walk-destination',
+        color: walkingColor,
+        points: [stopPoint(lastLeg.alightStop), position],
+        dashed: true,
+      })
+    }
+  }
+  if (firstLeg) {
+    markers.push({
+      id: `board-${firstLeg.boardStop.stop_id}`,
+      position: stopPoint(firstLeg.boardStop),
+      label: `Board at ${firstLeg.boardStop.stop_name}`,
+      kind: 'board',
+    })
+  }
+  transfers.forEach((transfer, index) => {
+    markers.push({
+      id: `transfer-${index}-${transfer.fromStop.stop_id}`,
+      position: stopPoint(transfer.fromStop),
+      label: `Transfer at ${transfer.fromStop.stop_name}`,
+      kind: 'transfer',
+    })
+    if (transfer.fromStop.stop_id === transfer.toStop.stop_id) return
+    markers.push({
+      id: `transfer-${index}-${transfer.toStop.stop_id}`,
+      position: stopPoint(transfer.toStop),
+      label: `Transfer at ${transfer.toStop.stop_name}`,
+      kind: 'transfer',
+    })
+    polylines.push({
+      id: `walk-transfer-${index}`,
+      color: walkingColor,
+      points: [stopPoint(transfer.fromStop), stopPoint(transfer.toStop)],
+      dashed: true,
+    })
+  })
+  if (lastLeg) {
+    markers.push({
+      id: `alight-${lastLeg.alightStop.stop_id}`,
+      position: stopPoint(lastLeg.alightStop),
+      label: `Get off at ${lastLeg.alightStop.stop_name}`,
+      kind: 'alight',
+    })
+  }
+
+  const routeById = new Map(routes.map((route) => [route.route_id, route]))
+  const routeIdByTrip = new Map(trips.map((trip) => [trip.trip_id, trip.route_id]))
+  vehicles.forEach((vehicle) => {
+    const routeId =
+      vehicle.routeId ?? (vehicle.tripId ? routeIdByTrip.get(vehicle.tripId) : undefined)
+    const route = routeId ? routeById.get(routeId) : undefined
+    markers.push({
+      id: `vehicle-${vehicle.id}`,
+      position: { lat: vehicle.lat, lon: vehicle.lon },
+      label: `${route ? `Route ${route.route_short_name}` : 'Bus'} ${
+        vehicle.label ?? vehicle.id
+      } (live)`,
+      kind: 'vehicle',
+      fill: route?.route_color ? `#${route.route_color}` : undefined,
+    })
+  })
+  return { polylines, markers }
+}
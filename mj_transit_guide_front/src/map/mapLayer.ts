@@ -0,0 +1,58 @@
+export type MapPoint = {
+  lat: number
+  lon: number
+}
+
+export type MapPolyline = {
+  id: string
+  color: string
+  points: MapPoint[]
+  emphasis?: boolean
+  dashed?: boolean
+}
+
+export type MapMarkerKind =
+  | 'stop'
+  | 'board'
+  | 'alight'
+  | 'transfer'
+  | 'origin'
+  | 'destination'
+  | 'vehicle'
+
+export type MapMarker = {
+  id: string
+  position: MapPoint
+  label: string
+  kind: MapMarkerKind
+  fill?: string
+}
+
+export type MapScene = {
+  polylines: MapPolyline[]
+  markers: MapMarker[]
+}
+
+export type MapRenderer = {
+  render: (scene: MapScene) => void
+  destroy: () => void
+}
+
+export type MapRendererFactory = (container: HTMLElement) => MapRenderer
+
+export const markerStyles: Record<
+  MapMarkerKind,
+  { radius: number; fill: string; stroke: string }
+> = {
+  stop: { radius: 3, fill: '#ffffff', stroke: '#1f4e5f' },
+  board: { radius: 8, fill: '#2e7d32', stroke: '#ffffff' },
+  alight: { radius: 8, fill: '#c62828', stroke: '#ffffff' },
+  transfer: { radius: 8, fill: '#f39c6b', stroke: '#ffffff' },
+  origin: { radius: 7, fill: '#1f4e5f', stroke: '#ffffff' },
+  destination: { radius: 7, fill: '#1f4e5f', stroke: '#f39c6b' },
+  vehicle: { radius: 9, fill: '#1f4e5f', stroke: '#000000' },
+}
+
+export const walkingColor = '#1f4e5f'
+
+export const hasEmphasis = (scene: MapScene) => scene.polylines.some((line) => line.emphasis)
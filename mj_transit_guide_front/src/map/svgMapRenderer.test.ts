@@ -0,0 +1,90 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { buildPlannerNetwork, parseGtfsFeed, planEarliestArrival, type Stop } from '../core'
+import { buildGtfsFiles, lineOfStops } from '../test/gtfsFixtures'
+import { buildItineraryScene } from './itineraryScene'
+import { markerStyles, walkingColor } from './mapLayer'
+import { createSvgMapRenderer } from './svgMapRenderer'
+
+const routeColors: Record<string, string> = { R1: 'E4002B', R2: '0072CE' }
+
+// Ride R1 from A to B, walk about 110 m to B2, then ride R2 to C.
+const buildScene = () => {
+  const [stopA, stopB, stopC] = lineOfStops(['A', 'B', 'C'])
+  const feed = parseGtfsFeed(
+    buildGtfsFiles({
+      stops: [stopA, stopB, stopC, { id: 'B2', lat: stopB.lat + 0.001, lon: stopB.lon }],
+      trips: [
+        { id: 'T1', route: 'R1', stopTimes: [['A', '08:00:00'], ['B', '08:10:00']] },
+        { id: 'T2', route: 'R2', stopTimes: [['B2', '08:15:00'], ['C', '08:25:00']] },
+      ],
+    })
+  )
+  const routes = feed.routes.map((route) => ({
+    ...route,
+    route_color: routeColors[route.route_id],
+  }))
+  const trips = feed.trips.map((trip) => ({ ...trip, shape_id: trip.route_id }))
+  const stopById = new Map(feed.stops.map((stop) => [stop.stop_id, stop]))
+  const stopPoint = (id: string) => {
+    const stop = stopById.get(id) as Stop
+    return { lat: stop.stop_lat, lon: stop.stop_lon }
+  }
+  const network = buildPlannerNetwork(feed.stops, routes, trips, feed.stopTimesByTrip)
+  const [itinerary] = planEarliestArrival(network, {
+    origins: [{ stop: stopById.get('A') as Stop, walkDistanceKm: 0.1 }],
+    destinations: [{ stop: stopById.get('C') as Stop, walkDistanceKm: 0.1 }],
+    departureMinutes: 7 * 60 + 50,
+  })
+  const nearby = (id: string, address: string) => {
+    const { lat, lon } = stopPoint(id)
+    return { address, location: { lat, lng: lon + 0.001 } }
+  }
+  return buildItineraryScene({
+    routes,
+    trips,
+    stops: feed.stops,
+    shapesById: new Map([
+      ['R1', [stopPoint('A'), stopPoint('B')]],
+      ['R2', [stopPoint('B2'), stopPoint('C')]],
+    ]),
+    legs: itinerary.legs,
+    transfers: itinerary.transfers,
+    origin: nearby('A', 'Home'),
+    destination: nearby('C', 'Work'),
+    vehicles: [],
+  })
+}
+
+const renderScene = () => {
+  const container = document.createElement('div')
+  createSvgMapRenderer(container).render(buildScene())
+  return container
+}
+
+describe('createSvgMapRenderer', () => {
+  it('draws each route in its route_color', () => {
+    const paths = [...renderScene().querySelectorAll('path:not([stroke-dasharray])')]
+    expect(paths.map((path) => path.getAttribute('stroke')).sort()).toEqual(['#0072CE', '#E4002B'])
+  })
+
+  it('dashes the walks to, between and from the buses', () => {
+    const walks = [...renderScene().querySelectorAll('path[stroke-dasharray]')]
+    expect(walks).toHaveLength(3)
+    expect(walks.every((path) => path.getAttribute('stroke') === walkingColor)).toBe(true)
+  })
+
+  it('marks where to board, transfer and get off', () => {
+    const circles = [...renderScene().querySelectorAll('circle')]
+    const markerFor = (label: string) =>
+      circles.find((circle) => circle.querySelector('title')?.textContent === label)
+    expect(markerFor('Board at Stop A')?.getAttribute('fill')).toBe(markerStyles.board.fill)
+    expect(markerFor('Transfer at Stop B')?.getAttribute('fill')).toBe(markerStyles.transfer.fill)
+    expect(markerFor('Transfer at Stop B2')?.getAttribute('fill')).toBe(
+      markerStyles.transfer.fill
+    )
+    expect(markerFor('Get off at Stop C')?.getAttribute('fill')).toBe(markerStyles.alight.fill)
+    expect(markerFor('Home')?.getAttribute('fill')).toBe(markerStyles.origin.fill)
+    expect(markerFor('Work')?.getAttribute('fill')).toBe(markerStyles.destination.fill)
+  })
+})
@@ -0,0 +1,113 @@
+import {
+  hasEmphasis,
+  markerStyles,
+  type MapPoint,
+  type MapRendererFactory,
+  type MapScene,
+} from './mapLayer'
+
+const svgNamespace = 'http://www.w3.org/2000/svg'
+const viewWidth = 1000
+const viewHeight = 700
+const viewPadding = 24
+
+const createSvgElement = (name: string, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(svgNamespace, name)
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)))
+  return element
+}
+
+const buildProjection = (scene: MapScene) => {
+  const points: MapPoint[] = [
+    ...scene.polylines.flatMap((line) => line.points),
+    ...scene.markers.map((marker) => marker.position),
+  ]
+  if (points.length === 0) return null
+  let minLat = Infinity
+  let maxLat = -Infinity
+  let minLon = Infinity
+  let maxLon = -Infinity
+  points.forEach((point) => {
+    if (point.lat < minLat) minLat = point.lat
+    if (point.lat > maxLat) maxLat = point.lat
+    if (point.lon < minLon) minLon = point.lon
+    if (point.lon > maxLon) maxLon = point.lon
+  })
+  const lonScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180)
+  const spanX = Math.max((maxLon - minLon) * lonScale, 1e-6)
+  const spanY = Math.max(maxLat - minLat, 1e-6)
+  const scale = Math.min(
+    (viewWidth - viewPadding * 2) / spanX,
+    (viewHeight - viewPadding * 2) / spanY
+  )
+  const offsetX = (viewWidth - spanX * scale) / 2
+  const offsetY = (viewHeight - spanY * scale) / 2
+  return (point: MapPoint) => ({
+    x: offsetX + (point.lon - minLon) * lonScale * scale,
+    y: offsetY + (maxLat - point.lat) * scale,
+  })
+}
+
+export const createSvgMapRenderer: MapRendererFactory = (container) => {
+  const svg = createSvgElement('svg', {
+    viewBox: `0 0 ${viewWidth} ${viewHeight}`,
+    width: '100%',
+    height: '100%',
+    role: 'img',
+    'aria-label': 'Transit route map',
+  })
+  container.appendChild(svg)
+
+  return {
+    render: (scene) => {
+      svg.replaceChildren()
+      const project = buildProjection(scene)
+      if (!project) return
+      const dimmed = hasEmphasis(scene)
+
+      scene.polylines.forEach((line) => {
+        if (line.points.length < 2) return
+        const path = line.points
+          .map((point, index) => {
+            const { x, y } = project(point)
+            return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`
+          })
+          .join(' ')
+        const element = createSvgElement('path', {
+          d: path,
+          fill: 'none',
+          stroke: line.color,
+          'stroke-width': line.emphasis ? 6 : 3,
+          'stroke-linecap': 'round',
+          'stroke-linejoin': 'round',
+          'stroke-opacity': dimmed && !line.emphasis && !line.dashed ? 0.35 : 0.9,
+        })
+        if (line.dashed) element.setAttribute('stroke-dasharray', '6 8')
+        svg.appendChild(element)
+      })
+
+      const ordered = [...scene.markers].sort(
+        (a, b) => Number(a.kind !== 'stop') - Number(b.kind !== 'stop')
+      )
+      ordered.forEach((marker) => {
+        const style = markerStyles[marker.kind]
+        const { x, y } = project(marker.position)
+        const circle = createSvgElement('circle', {
+          cx: x.toFixed(1),
+          cy: y.toFixed(1),
+          r: style.radius,
+          fill: marker.fill ?? style.fill,
+          stroke: style.stroke,
+          'stroke-width': 2,
+        })
+        const title = createSvgElement('title', {})
+        title.textContent = marker.label
+        circle.appendChild(title)
+        svg.appendChild(circle)
+      })
+    },
+    destroy: () => {
+      svg.remove()
+    },
+  }
+}
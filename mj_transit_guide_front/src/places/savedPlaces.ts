@@ -0,0 +1,142 @@
+import type { PlanLinkPlace } from '../core'
+
+// Saved places keep the resolved place, so choosing one never needs a geocoding lookup.
+export type SavedPlace = {
+  id: string
+  label: string
+  place: PlanLinkPlace
+}
+
+export type FavouriteTrip = {
+  id: string
+  label: string
+  from: PlanLinkPlace
+  to: PlanLinkPlace
+}
+
+export type SavedPlaces = {
+  places: SavedPlace[]
+  trips: FavouriteTrip[]
+}
+
+export const presetPlaceLabels = ['Home', 'Work']
+
+const storageKey = 'mj-transit-guide:saved-places'
+const exportFormat = 'mj-transit-guide/saved-places'
+const exportVersion = 1
+
+export const emptySavedPlaces: SavedPlaces = { places: [], trips: [] }
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+const isPlace = (value: unknown): value is PlanLinkPlace => {
+  if (!isRecord(value)) return false
+  if (value.kind === 'stop') return typeof value.stopId === 'string' && value.stopId !== ''
+  return (
+    value.kind === 'location' &&
+    typeof value.label === 'string' &&
+    Number.isFinite(value.lat) &&
+    Number.isFinite(value.lng)
+  )
+}
+
+const isSavedPlace = (value: unknown): value is SavedPlace =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  value.label.trim() !== '' &&
+  isPlace(value.place)
+
+const isFavouriteTrip = (value: unknown): value is FavouriteTrip =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  isPlace(value.from) &&
+  isPlace(value.to)
+
+const readSavedPlaces = (value: unknown): SavedPlaces | null => {
+  if (!isRecord(value) || !Array.isArray(value.places) || !Array.isArray(value.trips)) return null
+  return { places: value.places.filter(isSavedPlace), trips: value.trips.filter(isFavouriteTrip) }
+}
+
+export const createSavedId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+export const loadSavedPlaces = (): SavedPlaces => {
+  try {
+    const raw = window.localStorage.getItem(storageKey)
+    return (raw && readSavedPlaces(JSON.parse(raw))) || emptySavedPlaces
+  } catch {
+    return emptySavedPlaces
+  }
+}
+
+export const storeSavedPlaces = (saved: SavedPlaces) => {
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(saved))
+  } catch {
+    // Private browsing or a full quota: saved places then only last for this visit.
+  }
+}
+
+// Saving a label that already exists replaces that place, so there is only one Home.
+export const savePlace = (saved: SavedPlaces, label: string, place: PlanLinkPlace): SavedPlaces => {
+  const existing = saved.places.find(
+    (item) => item.label.toLowerCase() === label.toLowerCase()
+  )
+  const entry = { id: existing?.id ?? createSavedId(), label, place }
+  return {
+    ...saved,
+    places: existing
+      ? saved.places.map((item) => (item.id === existing.id ? entry : item))
+      : [...saved.places, entry],
+  }
+}
+
+export const saveFavouriteTrip = (
+  saved: SavedPlaces,
+  label: string,
+  from: PlanLinkPlace,
+  to: PlanLinkPlace
+): SavedPlaces => ({
+  ...saved,
+  trips: [...saved.trips, { id: createSavedId(), label, from, to }],
+})
+
+export const exportSavedPlaces = (saved: SavedPlaces) =>
+  `${JSON.stringify({ format: exportFormat, version: exportVersion, ...saved }, null, 2)}\n`
+
+export const parseSavedPlacesExport = (text: string) => {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON.')
+  }
+  if (!isRecord(value) || value.format !== exportFormat) {
+    throw new Error('The file is not a saved places export.')
+  }
+  const saved = readSavedPlaces(value)
+  if (!saved) throw new Error('The file has no saved places or trips.')
+  return saved
+}
+
+// Imported places replace saved ones with the same label; imported trips are added unless the
+// same trip is already saved.
+export const mergeSavedPlaces = (saved: SavedPlaces, imported: SavedPlaces): SavedPlaces => {
+  const merged = imported.places.reduce(
+    (current, item) => savePlace(current, item.label, item.place),
+    saved
+  )
+  const tripKeys = new Set(merged.trips.map((trip) => JSON.stringify([trip.from, trip.to])))
+  return {
+    ...merged,
+    trips: [
+      ...merged.trips,
+      ...imported.trips
+        .filter((trip) => !tripKeys.has(JSON.stringify([trip.from, trip.to])))
+        .map((trip) => ({ ...trip, id: createSavedId() })),
+    ],
+  }
+}
@@ -0,0 +1,57 @@
+// Precaches the app shell, the bundled GTFS files and everything in public/, so the planner and
+// timetables keep working with no connection. The build replaces __PRECACHE_MANIFEST__ with the
+// emitted file list; this file must not import anything, since it is served as a classic script.
+declare const self: ServiceWorkerGlobalScope
+declare const __PRECACHE_MANIFEST__: { version: string; urls: string[] }
+
+const precacheManifest = __PRECACHE_MANIFEST__
+const cachePrefix = 'mj-transit-guide-shell-'
+const cacheName = `${cachePrefix}${precacheManifest.version}`
+const scopeUrl = (path: string) => new URL(path, self.registration.scope).href
+const precacheUrls = new Set(precacheManifest.urls.map(scopeUrl))
+const shellUrl = scopeUrl('index.html')
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(cacheName)
+      .then((cache) => cache.addAll([...precacheUrls]))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(cachePrefix) && key !== cacheName)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET' || request.headers.has('range')) return
+  // Pages come from the network when possible so a deploy shows up on the next visit; any
+  // deep link falls back to the cached shell offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(
+        async () => (await caches.match(shellUrl, { cacheName })) ?? Response.error()
+      )
+    )
+    return
+  }
+  const url = new URL(request.url)
+  url.search = ''
+  if (!precacheUrls.has(url.href)) return
+  event.respondWith(
+    caches.match(url.href, { cacheName }).then((cached) => cached ?? fetch(request))
+  )
+})
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeFeedMessage } from './gtfsRealtime'
+import { toRealtimeSnapshot } from './realtimeFeed'
+import { toServiceAlerts } from './serviceAlerts'
+
+describe('normalizeFeedMessage', () => {
+  it('rejects JSON without a header', () => {
+    expect(() => normalizeFeedMessage({ entity: [] })).toThrow('missing its header')
+    expect(() => normalizeFeedMessage(null)).toThrow('missing its header')
+  })
+
+  it('treats a feed without entities as empty', () => {
+    const feed = normalizeFeedMessage({ header: { gtfs_realtime_version: '2.0' } })
+    expect(feed.entity).toEqual([])
+    expect(toServiceAlerts(feed)).toEqual([])
+  })
+
+  it('fills in missing translations and alert lists', () => {
+    const feed = normalizeFeedMessage({
+      header: { gtfs_realtime_version: '2.0', timestamp: '1792418400' },
+      entity: [{ id: 'a1', alert: { header_text: {}, description_text: { translation: null } } }],
+    })
+    expect(feed.header.timestamp).toBe(1792418400)
+    expect(toServiceAlerts(feed)).toMatchObject([
+      {
+        id: 'a1',
+        header: 'Service alert',
+        description: null,
+        activePeriods: [],
+        targets: [],
+      },
+    ])
+  })
+
+  it('gives trip updates a trip and a list of stop updates', () => {
+    const feed = normalizeFeedMessage({
+      header: { gtfs_realtime_version: '2.0' },
+      entity: [
+        { id: 'u1', trip_update: { delay: 60 } },
+        { id: 'u2', trip_update: { trip: { trip_id: 'T1' }, stop_time_update: 'none' } },
+        'not an entity',
+      ],
+    })
+    expect(feed.entity).toHaveLength(2)
+    const snapshot = toRealtimeSnapshot([feed], 1792418400)
+    expect([...snapshot.tripUpdates.keys()]).toEqual(['T1'])
+    expect(snapshot.tripUpdates.get('T1')?.updates).toEqual([])
+  })
+})
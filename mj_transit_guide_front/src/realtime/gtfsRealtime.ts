@@ -0,0 +1,346 @@
+import {
+  getFloat,
+  getMessage,
+  getRepeatedMessages,
+  getString,
+  getVarint,
+  readProtoFields,
+  type ProtoField,
+} from './protobuf'
+
+export type TranslatedString = {
+  translation: Array<{ text: string; language?: string }>
+}
+
+export type TimeRange = {
+  start?: number
+  end?: number
+}
+
+export type TripDescriptor = {
+  trip_id?: string
+  route_id?: string
+  direction_id?: number
+  start_time?: string
+  start_date?: string
+  schedule_relationship?: string
+}
+
+export type EntitySelector = {
+  agency_id?: string
+  route_id?: string
+  stop_id?: string
+  trip?: TripDescriptor
+}
+
+export type AlertMessage = {
+  active_period?: TimeRange[]
+  informed_entity?: EntitySelector[]
+  cause?: string
+  effect?: string
+  url?: TranslatedString
+  header_text?: TranslatedString
+  description_text?: TranslatedString
+}
+
+export type StopTimeEvent = {
+  delay?: number
+  time?: number
+}
+
+export type StopTimeUpdateMessage = {
+  stop_sequence?: number
+  stop_id?: string
+  arrival?: StopTimeEvent
+  departure?: StopTimeEvent
+  schedule_relationship?: string
+}
+
+export type VehicleDescriptor = {
+  id?: string
+  label?: string
+}
+
+export type TripUpdateMessage = {
+  trip: TripDescriptor
+  vehicle?: VehicleDescriptor
+  stop_time_update?: StopTimeUpdateMessage[]
+  timestamp?: number
+  delay?: number
+}
+
+export type VehiclePositionMessage = {
+  trip?: TripDescriptor
+  vehicle?: VehicleDescriptor
+  position?: {
+    latitude: number
+    longitude: number
+    bearing?: number
+    speed?: number
+  }
+  current_stop_sequence?: number
+  stop_id?: string
+  timestamp?: number
+}
+
+export type FeedEntity = {
+  id: string
+  is_deleted?: boolean
+  trip_update?: TripUpdateMessage
+  vehicle?: VehiclePositionMessage
+  alert?: AlertMessage
+}
+
+export type FeedMessage = {
+  header: {
+    gtfs_realtime_version: string
+    timestamp?: number
+  }
+  entity: FeedEntity[]
+}
+
+const causeNames = [
+  '',
+  'UNKNOWN_CAUSE',
+  'OTHER_CAUSE',
+  'TECHNICAL_PROBLEM',
+  'STRIKE',
+  'DEMONSTRATION',
+  'ACCIDENT',
+  'HOLIDAY',
+  'WEATHER',
+  'MAINTENANCE',
+  'CONSTRUCTION',
+  'POLICE_ACTIVITY',
+  'MEDICAL_EMERGENCY',
+]
+
+const effectNames = [
+  '',
+  'NO_SERVICE',
+  'REDUCED_SERVICE',
+  'SIGNIFICANT_DELAYS',
+  'DETOUR',
+  'ADDITIONAL_SERVICE',
+  'MODIFIED_SERVICE',
+  'OTHER_EFFECT',
+  'UNKNOWN_EFFECT',
+  'STOP_MOVED',
+  'NO_EFFECT',
+  'ACCESSIBILITY_ISSUE',
+]
+
+const decodeTranslatedString = (fields?: ProtoField[]): TranslatedString | undefined => {
+  if (!fields) return undefined
+  return {
+    translation: getRepeatedMessages(fields, 1).map((translation) => ({
+      text: getString(translation, 1) ?? '',
+      language: getString(translation, 2),
+    })),
+  }
+}
+
+const tripScheduleNames = ['SCHEDULED', 'ADDED', 'UNSCHEDULED', 'CANCELED', '', 'REPLACEMENT']
+const stopScheduleNames = ['SCHEDULED', 'SKIPPED', 'NO_DATA']
+
+export const decodeTripDescriptor = (fields: ProtoField[]): TripDescriptor => {
+  const relationship = getVarint(fields, 4)
+  return {
+    trip_id: getString(fields, 1),
+    start_time: getString(fields, 2),
+    start_date: getString(fields, 3),
+    schedule_relationship:
+      relationship === undefined ? undefined : tripScheduleNames[relationship] || 'SCHEDULED',
+    route_id: getString(fields, 5),
+    direction_id: getVarint(fields, 6),
+  }
+}
+
+const decodeVehicleDescriptor = (fields?: ProtoField[]): VehicleDescriptor | undefined =>
+  fields ? { id: getString(fields, 1), label: getString(fields, 2) } : undefined
+
+const decodeStopTimeEvent = (fields?: ProtoField[]): StopTimeEvent | undefined =>
+  fields ? { delay: getVarint(fields, 1), time: getVarint(fields, 2) } : undefined
+
+const decodeTripUpdate = (fields: ProtoField[]): TripUpdateMessage => {
+  const trip = getMessage(fields, 1)
+  return {
+    trip: trip ? decodeTripDescriptor(trip) : {},
+    vehicle: decodeVehicleDescriptor(getMessage(fields, 3)),
+    stop_time_update: getRepeatedMessages(fields, 2).map((update) => {
+      const relationship = getVarint(update, 5)
+      return {
+        stop_sequence: getVarint(update, 1),
+        stop_id: getString(update, 4),
+        arrival: decodeStopTimeEvent(getMessage(update, 2)),
+        departure: decodeStopTimeEvent(getMessage(update, 3)),
+        schedule_relationship:
+          relationship === undefined ? undefined : stopScheduleNames[relationship] || 'SCHEDULED',
+      }
+    }),
+    timestamp: getVarint(fields, 4),
+    delay: getVarint(fields, 5),
+  }
+}
+
+const decodeVehiclePosition = (fields: ProtoField[]): VehiclePositionMessage => {
+  const trip = getMessage(fields, 1)
+  const position = getMessage(fields, 2)
+  return {
+    trip: trip ? decodeTripDescriptor(trip) : undefined,
+    vehicle: decodeVehicleDescriptor(getMessage(fields, 8)),
+    position: position
+      ? {
+          latitude: getFloat(position, 1) ?? 0,
+          longitude: getFloat(position, 2) ?? 0,
+          bearing: getFloat(position, 3),
+          speed: getFloat(position, 5),
+        }
+      : undefined,
+    current_stop_sequence: getVarint(fields, 3),
+    stop_id: getString(fields, 7),
+    timestamp: getVarint(fields, 5),
+  }
+}
+
+const decodeAlert = (fields: ProtoField[]): AlertMessage => {
+  const cause = getVarint(fields, 6)
+  const effect = getVarint(fields, 7)
+  return {
+    active_period: getRepeatedMessages(fields, 1).map((period) => ({
+      start: getVarint(period, 1),
+      end: getVarint(period, 2),
+    })),
+    informed_entity: getRepeatedMessages(fields, 5).map((selector) => {
+      const trip = getMessage(selector, 4)
+      return {
+        agency_id: getString(selector, 1),
+        route_id: getString(selector, 2),
+        stop_id: getString(selector, 5),
+        trip: trip ? decodeTripDescriptor(trip) : undefined,
+      }
+    }),
+    cause: cause === undefined ? undefined : causeNames[cause] || 'UNKNOWN_CAUSE',
+    effect: effect === undefined ? undefined : effectNames[effect] || 'UNKNOWN_EFFECT',
+    url: decodeTranslatedString(getMessage(fields, 8)),
+    header_text: decodeTranslatedString(getMessage(fields, 10)),
+    description_text: decodeTranslatedString(getMessage(fields, 11)),
+  }
+}
+
+export const decodeFeedMessage = (bytes: Uint8Array): FeedMessage => {
+  const fields = readProtoFields(bytes)
+  const header = getMessage(fields, 1)
+  if (!header) throw new Error('GTFS-Realtime feed is missing its header.')
+  return {
+    header: {
+      gtfs_realtime_version: getString(header, 1) ?? '',
+      timestamp: getVarint(header, 3),
+    },
+    entity: getRepeatedMessages(fields, 2).map((entity) => {
+      const tripUpdate = getMessage(entity, 3)
+      const vehicle = getMessage(entity, 4)
+      const alert = getMessage(entity, 5)
+      return {
+        id: getString(entity, 1) ?? '',
+        is_deleted: getVarint(entity, 2) === 1,
+        trip_update: tripUpdate ? decodeTripUpdate(tripUpdate) : undefined,
+        vehicle: vehicle ? decodeVehiclePosition(vehicle) : undefined,
+        alert: alert ? decodeAlert(alert) : undefined,
+      }
+    }),
+  }
+}
+
+export const pickTranslation = (value?: TranslatedString, language = 'en') => {
+  if (!value || value.translation.length === 0) return null
+  const match = value.translation.find((item) => item.language === language)
+  return (match ?? value.translation[0]).text
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+const records = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : [])
+
+// Scalar fields are kept as sent; the readers already convert them with Number().
+const optionalRecord = <T>(value: unknown) => (isRecord(value) ? (value as T) : undefined)
+
+const normalizeTranslatedString = (value: unknown): TranslatedString | undefined =>
+  isRecord(value)
+    ? {
+        translation: records(value.translation).map((item) => ({
+          text: typeof item.text === 'string' ? item.text : '',
+          language: typeof item.language === 'string' ? item.language : undefined,
+        })),
+      }
+    : undefined
+
+const normalizeTripUpdate = (value: Record<string, unknown>): TripUpdateMessage => ({
+  ...value,
+  trip: optionalRecord<TripDescriptor>(value.trip) ?? {},
+  vehicle: optionalRecord<VehicleDescriptor>(value.vehicle),
+  stop_time_update: records(value.stop_time_update).map((update) => ({
+    ...update,
+    arrival: optionalRecord<StopTimeEvent>(update.arrival),
+    departure: optionalRecord<StopTimeEvent>(update.departure),
+  })),
+})
+
+const normalizeVehiclePosition = (value: Record<string, unknown>): VehiclePositionMessage => ({
+  ...value,
+  trip: optionalRecord<TripDescriptor>(value.trip),
+  vehicle: optionalRecord<VehicleDescriptor>(value.vehicle),
+  position: optionalRecord<VehiclePositionMessage['position']>(value.position),
+})
+
+const normalizeAlert = (value: Record<string, unknown>): AlertMessage => ({
+  ...value,
+  active_period: records(value.active_period),
+  informed_entity: records(value.informed_entity).map((selector) => ({
+    ...selector,
+    trip: optionalRecord<TripDescriptor>(selector.trip),
+  })),
+  url: normalizeTranslatedString(value.url),
+  header_text: normalizeTranslatedString(value.header_text),
+  description_text: normalizeTranslatedString(value.description_text),
+})
+
+// JSON feeds fill in the same arrays and nested messages that decodeFeedMessage always returns.
+export const normalizeFeedMessage = (json: unknown): FeedMessage => {
+  if (!isRecord(json) || !isRecord(json.header)) {
+    throw new Error('GTFS-Realtime feed is missing its header.')
+  }
+  const { header } = json
+  return {
+    header: {
+      gtfs_realtime_version:
+        typeof header.gtfs_realtime_version === 'string' ? header.gtfs_realtime_version : '',
+      // Protobuf JSON writes 64-bit timestamps as strings.
+      timestamp:
+        typeof header.timestamp === 'number' || typeof header.timestamp === 'string'
+          ? Number(header.timestamp)
+          : undefined,
+    },
+    entity: records(json.entity).map((entity) => ({
+      id: typeof entity.id === 'string' ? entity.id : '',
+      is_deleted: entity.is_deleted === true,
+      trip_update: isRecord(entity.trip_update)
+        ? normalizeTripUpdate(entity.trip_update)
+        : undefined,
+      vehicle: isRecord(entity.vehicle) ? normalizeVehiclePosition(entity.vehicle) : undefined,
+      alert: isRecord(entity.alert) ? normalizeAlert(entity.alert) : undefined,
+    })),
+  }
+}
+
+// Static feeds (JSON fixtures or .pb files) are accepted alongside live URLs.
+export const fetchFeedMessage = async (url: string, signal?: AbortSignal) => {
+  const response = await fetch(url, { signal, cache: 'no-store' })
+  if (!response.ok) throw new Error(`Feed request failed with ${response.status}.`)
+  const contentType = response.headers.get('content-type') ?? ''
+  if (contentType.includes('json') || url.endsWith('.json')) {
+    return normalizeFeedMessage(await response.json())
+  }
+  return decodeFeedMessage(new Uint8Array(await response.arrayBuffer()))
+}
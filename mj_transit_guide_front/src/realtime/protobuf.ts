@@ -0,0 +1,98 @@
+export type ProtoField =
+  | { number: number; wireType: 0; value: number }
+  | { number: number; wireType: 1 | 2 | 5; value: Uint8Array }
+
+const textDecoder = new TextDecoder()
+
+// Varints are read as signed 64-bit values so negative int32 fields (such as
+// delays) come back negative, while timestamps and enums stay unsigned.
+export const readProtoFields = (bytes: Uint8Array): ProtoField[] => {
+  const fields: ProtoField[] = []
+  let offset = 0
+
+  const readVarint = () => {
+    let low = 0
+    let high = 0
+    let shift = 0
+    for (;;) {
+      if (offset >= bytes.length) throw new Error('Truncated protobuf varint.')
+      const byte = bytes[offset]
+      offset += 1
+      if (shift < 28) {
+        low |= (byte & 0x7f) << shift
+      } else if (shift === 28) {
+        low |= (byte & 0x0f) << 28
+        high |= (byte & 0x7f) >> 4
+      } else if (shift < 64) {
+        high |= (byte & 0x7f) << (shift - 32)
+      }
+      shift += 7
+      if ((byte & 0x80) === 0) break
+    }
+    low >>>= 0
+    high >>>= 0
+    return (high >= 0x80000000 ? high - 2 ** 32 : high) * 2 ** 32 + low
+  }
+
+  const readBytes = (length: number) => {
+    if (offset + length > bytes.length) throw new Error('Truncated protobuf field.')
+    const value = bytes.subarray(offset, offset + length)
+    offset += length
+    return value
+  }
+
+  while (offset < bytes.length) {
+    const key = readVarint()
+    const number = Math.floor(key / 8)
+    const wireType = key % 8
+    if (wireType === 0) {
+      fields.push({ number, wireType, value: readVarint() })
+    } else if (wireType === 1) {
+      fields.push({ number, wireType, value: readBytes(8) })
+    } else if (wireType === 2) {
+      fields.push({ number, wireType, value: readBytes(readVarint()) })
+    } else if (wireType === 5) {
+      fields.push({ number, wireType, value: readBytes(4) })
+    } else {
+      throw new Error(`Unsupported protobuf wire type ${wireType}.`)
+    }
+  }
+  return fields
+}
+
+const lastField = (fields: ProtoField[], number: number) => {
+  for (let index = fields.length - 1; index >= 0; index -= 1) {
+    if (fields[index].number === number) return fields[index]
+  }
+  return undefined
+}
+
+export const getVarint = (fields: ProtoField[], number: number) => {
+  const field = lastField(fields, number)
+  return field?.wireType === 0 ? field.value : undefined
+}
+
+export const getString = (fields: ProtoField[], number: number) => {
+  const field = lastField(fields, number)
+  return field && field.wireType === 2 ? textDecoder.decode(field.value) : undefined
+}
+
+export const getFloat = (fields: ProtoField[], number: number) => {
+  const field = lastField(fields, number)
+  if (!field || field.wireType === 0 || field.wireType === 2) return undefined
+  const view = new DataView(field.value.buffer, field.value.byteOffset, field.value.byteLength)
+  return field.wireType === 5 ? view.getFloat32(0, true) : view.getFloat64(0, true)
+}
+
+export const getMessage = (fields: ProtoField[], number: number) => {
+  const field = lastField(fields, number)
+  return field && field.wireType === 2 ? readProtoFields(field.value) : undefined
+}
+
+export const getRepeatedMessages = (fields: ProtoField[], number: number) =>
+  fields
+    .filter(
+      (field): field is ProtoField & { wireType: 2 } =>
+        field.number === number && field.wireType === 2
+    )
+    .map((field) => readProtoFields(field.value))
@@ -0,0 +1,73 @@
+import type {
+  RealtimeSnapshot,
+  StopTimeUpdate,
+  TripRealtime,
+  VehicleLocation,
+} from '../core/realtime'
+import { fetchFeedMessage, type FeedMessage, type StopTimeEvent } from './gtfsRealtime'
+
+const optionalNumber = (value?: number) => (value === undefined ? null : Number(value))
+
+const eventDelay = (event?: StopTimeEvent) => optionalNumber(event?.delay)
+
+const eventTime = (event?: StopTimeEvent) => (event?.time ? Number(event.time) : null)
+
+export const toRealtimeSnapshot = (feeds: FeedMessage[], fetchedAt: number): RealtimeSnapshot => {
+  const tripUpdates = new Map<string, TripRealtime>()
+  const vehicles: VehicleLocation[] = []
+  const timestamps: number[] = []
+
+  feeds.forEach((feed) => {
+    timestamps.push(feed.header.timestamp ? Number(feed.header.timestamp) : fetchedAt)
+    feed.entity.forEach((entity) => {
+      if (entity.is_deleted) return
+      const tripUpdate = entity.trip_update
+      if (tripUpdate?.trip.trip_id) {
+        tripUpdates.set(tripUpdate.trip.trip_id, {
+          tripId: tripUpdate.trip.trip_id,
+          startDate: tripUpdate.trip.start_date ?? null,
+          canceled: tripUpdate.trip.schedule_relationship === 'CANCELED',
+          delaySeconds: optionalNumber(tripUpdate.delay),
+          updates: (tripUpdate.stop_time_update ?? []).map(
+            (update): StopTimeUpdate => ({
+              stopSequence: optionalNumber(update.stop_sequence),
+              stopId: update.stop_id ?? null,
+              arrivalDelay: eventDelay(update.arrival),
+              arrivalTime: eventTime(update.arrival),
+              departureDelay: eventDelay(update.departure),
+              departureTime: eventTime(update.departure),
+              skipped: update.schedule_relationship === 'SKIPPED',
+            })
+          ),
+        })
+      }
+      const vehicle = entity.vehicle
+      if (vehicle?.position) {
+        vehicles.push({
+          id: vehicle.vehicle?.id ?? entity.id,
+          label: vehicle.vehicle?.label ?? null,
+          tripId: vehicle.trip?.trip_id ?? null,
+          routeId: vehicle.trip?.route_id ?? null,
+          lat: Number(vehicle.position.latitude),
+          lon: Number(vehicle.position.longitude),
+          bearing: optionalNumber(vehicle.position.bearing),
+          timestamp: vehicle.timestamp ? Number(vehicle.timestamp) : null,
+        })
+      }
+    })
+  })
+
+  return {
+    feedTimestamp: timestamps.length > 0 ? Math.min(...timestamps) : fetchedAt,
+    tripUpdates,
+    vehicles,
+  }
+}
+
+// Both feeds may share one URL; it is then fetched once.
+export const fetchRealtimeSnapshot = async (urls: string[], signal?: AbortSignal) => {
+  const feeds = await Promise.all(
+    [...new Set(urls)].map((url) => fetchFeedMessage(url, signal))
+  )
+  return toRealtimeSnapshot(feeds, Math.floor(Date.now() / 1000))
+}
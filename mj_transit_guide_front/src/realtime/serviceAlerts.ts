@@ -0,0 +1,30 @@
+import type { ServiceAlert } from '../core/alerts'
+import { fetchFeedMessage, pickTranslation, type FeedMessage } from './gtfsRealtime'
+
+export const toServiceAlerts = (feed: FeedMessage): ServiceAlert[] =>
+  feed.entity.flatMap((entity) => {
+    const { alert } = entity
+    if (!alert || entity.is_deleted) return []
+    return [
+      {
+        id: entity.id,
+        header: pickTranslation(alert.header_text) ?? 'Service alert',
+        description: pickTranslation(alert.description_text),
+        url: pickTranslation(alert.url),
+        cause: alert.cause ?? null,
+        effect: alert.effect ?? null,
+        activePeriods: (alert.active_period ?? []).map((period) => ({
+          start: period.start ? Number(period.start) : null,
+          end: period.end ? Number(period.end) : null,
+        })),
+        targets: (alert.informed_entity ?? []).map((selector) => ({
+          routeId: selector.route_id ?? selector.trip?.route_id,
+          stopId: selector.stop_id,
+          tripId: selector.trip?.trip_id,
+        })),
+      },
+    ]
+  })
+
+export const fetchServiceAlerts = async (url: string, signal?: AbortSignal) =>
+  toServiceAlerts(await fetchFeedMessage(url, signal))
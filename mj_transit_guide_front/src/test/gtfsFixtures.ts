@@ -0,0 +1,77 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import type { GtfsFiles } from '../core'
+
+const bundledFeedDir = join(dirname(fileURLToPath(import.meta.url)), '../../MJ_transit_GTFS')
+
+// The Moose Jaw feed shipped with the app.
+export const loadBundledFeedFiles = (): GtfsFiles =>
+  Object.fromEntries(
+    readdirSync(bundledFeedDir)
+      .filter((name) => name.endsWith('.txt'))
+      .map((name) => [name, readFileSync(join(bundledFeedDir, name), 'utf8')])
+  )
+
+export type FixtureStop = { id: string; lat: number; lon: number; name?: string }
+
+export type FixtureTrip = {
+  id: string
+  route: string
+  // Stop id and arrival/departure time, in visiting order.
+  stopTimes: Array<[string, string]>
+}
+
+export type FixtureFeed = {
+  stops: FixtureStop[]
+  trips: FixtureTrip[]
+  // One service, S, shared by every trip. Days run Monday to Sunday, e.g. '1111100'.
+  service?: { days: string; start: string; end: string }
+}
+
+const weekdayColumns = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+]
+
+const toCsv = (header: string[], rows: Array<Array<string | number>>) =>
+  `${[header, ...rows].map((row) => row.join(',')).join('\n')}\n`
+
+// Builds a small but schema-valid GTFS feed, so tests go through parseGtfsFeed like real data.
+export const buildGtfsFiles = ({
+  stops,
+  trips,
+  service = { days: '1111111', start: '20260101', end: '20261231' },
+}: FixtureFeed): GtfsFiles => ({
+  'stops.txt': toCsv(
+    ['stop_id', 'stop_name', 'stop_lat', 'stop_lon'],
+    stops.map((stop) => [stop.id, stop.name ?? `Stop ${stop.id}`, stop.lat, stop.lon])
+  ),
+  'routes.txt': toCsv(
+    ['route_id', 'route_short_name', 'route_type'],
+    [...new Set(trips.map((trip) => trip.route))].map((route) => [route, route, 3])
+  ),
+  'calendar.txt': toCsv(
+    ['service_id', ...weekdayColumns, 'start_date', 'end_date'],
+    [['S', ...service.days.split(''), service.start, service.end]]
+  ),
+  'trips.txt': toCsv(
+    ['route_id', 'service_id', 'trip_id'],
+    trips.map((trip) => [trip.route, 'S', trip.id])
+  ),
+  'stop_times.txt': toCsv(
+    ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence'],
+    trips.flatMap((trip) =>
+      trip.stopTimes.map(([stopId, time], index) => [trip.id, time, time, stopId, index + 1])
+    )
+  ),
+})
+
+// Stops a kilometre apart along a line, too far to walk between under the default options.
+export const lineOfStops = (ids: string[]): FixtureStop[] =>
+  ids.map((id, index) => ({ id, lat: 50.39 + index * 0.009, lon: -105.55 }))
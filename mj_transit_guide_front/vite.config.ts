@@ -1,4 +1,8 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
 const baseFromHomepage = (() => {
@@ -11,8 +15,48 @@ const baseFromHomepage = (() => {
   }
 })()
 
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory() ? listFiles(join(dir, entry.name)) : [join(dir, entry.name)]
+  )
+
+// Builds src/pwa/serviceWorker.ts to sw.js and hands it the list of files to precache: every
+// emitted chunk and asset plus the contents of public/. The cache version is a hash of those
+// files, so each deploy replaces the previous cache.
+const serviceWorker = (): Plugin => {
+  const entry = fileURLToPath(new URL('./src/pwa/serviceWorker.ts', import.meta.url))
+  const publicDir = fileURLToPath(new URL('./public', import.meta.url))
+  return {
+    name: 'mj-transit-service-worker',
+    apply: 'build',
+    buildStart() {
+      this.emitFile({ type: 'chunk', id: entry, fileName: 'sw.js' })
+    },
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const urls = ['./', 'index.html']
+      Object.values(bundle).forEach((output) => {
+        if (output.fileName === 'sw.js' || output.fileName.endsWith('.map')) return
+        urls.push(output.fileName)
+        hash.update(output.fileName)
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      })
+      listFiles(publicDir).forEach((file) => {
+        const url = relative(publicDir, file).split('\\').join('/')
+        urls.push(url)
+        hash.update(url)
+        hash.update(readFileSync(file))
+      })
+      const worker = bundle['sw.js']
+      if (worker?.type !== 'chunk') return
+      const manifest = { version: hash.digest('hex').slice(0, 12), urls: [...new Set(urls)] }
+      worker.code = worker.code.replaceAll('__PRECACHE_MANIFEST__', JSON.stringify(manifest))
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: process.env.VITE_BASE_PATH ?? baseFromHomepage ?? '/',
 })